@@ -148,5 +148,12 @@ internal static partial class LoggerExtensions
     public static partial void LogErrorCompletingObserversDuringDispose(
         this ILogger logger,
         Exception ex);
-}
 
+    [LoggerMessage(
+        EventId = 19,
+        Level = LogLevel.Warning,
+        Message = "Unable to measure element regions for mouse input")]
+    public static partial void LogUnableToMeasureElementRegions(
+        this ILogger logger,
+        Exception ex);
+}
@@ -83,6 +83,17 @@ public sealed class FocusManager : IObserver<ConsoleRenderer.RenderSnapshot>
         }
     }
 
+    /// <summary>
+    /// Returns the focusable targets of the current view in focus order.
+    /// </summary>
+    internal IReadOnlyList<FocusTarget> GetFocusTargets()
+    {
+        lock (_sync)
+        {
+            return _focusTargets.ToArray();
+        }
+    }
+
     /// <summary>
     /// Begins a new focus session that tracks updates on the provided live display context.
     /// </summary>
@@ -560,6 +571,8 @@ public sealed class FocusManager : IObserver<ConsoleRenderer.RenderSnapshot>
 
         public string Key { get; }
 
+        public VNode Node => _vnode;
+
         public IReadOnlyDictionary<string, string?> Attributes => _vnode.Attributes;
 
         public IReadOnlyCollection<VNodeEvent> Events => _vnode.Events;
@@ -150,6 +150,42 @@ internal sealed class KeyboardEventManager
         await DispatchKeyboardEventAsync(initialTarget, "onkeyup", keyInfo, token).ConfigureAwait(false);
     }
 
+    /// <summary>
+    /// Handles text delivered in one piece, such as a bracketed paste or an IME composition, as a single edit:
+    /// the focused element receives <c>onpaste</c> and then one <c>oninput</c> with the whole text appended.
+    /// </summary>
+    /// <remarks>
+    /// Line breaks are inserted as spaces and other control characters are dropped, so pasted text never submits
+    /// the input or moves focus.
+    /// </remarks>
+    internal async Task HandlePasteAsync(string text, CancellationToken token)
+    {
+        if (string.IsNullOrEmpty(text) || !_focusManager.TryGetFocusedTarget(out var target) || target is null)
+        {
+            return;
+        }
+
+        if (target.Events.TryGetEvent("onpaste", out var pasteEvent))
+        {
+            await DispatchAsync(pasteEvent, new ClipboardEventArgs { Type = "paste" }, token).ConfigureAwait(false);
+        }
+
+        var sanitized = SanitizePastedText(text);
+        if (sanitized.Length == 0)
+        {
+            return;
+        }
+
+        var buffer = GetOrCreateBuffer(target);
+        buffer.Append(sanitized);
+
+        if (target.Events.TryGetEvent("oninput", out var inputEvent))
+        {
+            var args = new ChangeEventArgs { Value = buffer.ToString() };
+            await DispatchAsync(inputEvent, args, token).ConfigureAwait(false);
+        }
+    }
+
     private async Task HandleTabAsync(ConsoleKeyInfo keyInfo, CancellationToken token)
     {
         try
@@ -260,7 +296,9 @@ internal sealed class KeyboardEventManager
         {
             if (buffer.Length > 0)
             {
-                buffer.Remove(buffer.Length - 1, 1);
+                // Remove a surrogate pair as a whole so pasted emoji are not left half deleted
+                var length = buffer.Length > 1 && char.IsLowSurrogate(buffer[buffer.Length - 1]) && char.IsHighSurrogate(buffer[buffer.Length - 2]) ? 2 : 1;
+                buffer.Remove(buffer.Length - length, length);
                 changed = true;
             }
         }
@@ -351,6 +389,30 @@ internal sealed class KeyboardEventManager
         return keyInfo.Key.ToString();
     }
 
+    private static string SanitizePastedText(string text)
+    {
+        var builder = new StringBuilder(text.Length);
+        for (var i = 0; i < text.Length; i++)
+        {
+            var c = text[i];
+            if (c == '\r' || c == '\n')
+            {
+                if (c == '\r' && i + 1 < text.Length && text[i + 1] == '\n')
+                {
+                    i++;
+                }
+
+                builder.Append(' ');
+            }
+            else if (!char.IsControl(c))
+            {
+                builder.Append(c);
+            }
+        }
+
+        return builder.ToString();
+    }
+
     private static bool ShouldRaiseKeyPress(ConsoleKeyInfo keyInfo)
     {
         return !char.IsControl(keyInfo.KeyChar) && keyInfo.KeyChar != '\0';
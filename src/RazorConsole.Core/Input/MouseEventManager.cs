@@ -0,0 +1,322 @@
+// Copyright (c) RazorConsole. All rights reserved.
+
+using Microsoft.AspNetCore.Components.Web;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Logging.Abstractions;
+using RazorConsole.Core.Abstractions.Rendering;
+using RazorConsole.Core.Extensions;
+using RazorConsole.Core.Focus;
+using RazorConsole.Core.Rendering;
+using RazorConsole.Core.Vdom;
+using Spectre.Console.Rendering;
+
+namespace RazorConsole.Core.Input;
+
+internal enum ConsoleMouseEventKind
+{
+    Click,
+    Wheel,
+    Move,
+}
+
+/// <summary>
+/// A pointer event in terminal cell coordinates, relative to the first line of the rendered view.
+/// </summary>
+/// <param name="Kind">The kind of event.</param>
+/// <param name="Column">Zero-based cell column.</param>
+/// <param name="Row">Zero-based cell row.</param>
+/// <param name="WheelDelta">Number of lines scrolled; positive values scroll down. Only used for <see cref="ConsoleMouseEventKind.Wheel"/>.</param>
+/// <param name="Modifiers">Modifier keys held during the event.</param>
+internal readonly record struct ConsoleMouseEvent(
+    ConsoleMouseEventKind Kind,
+    int Column,
+    int Row,
+    int WheelDelta = 0,
+    ConsoleModifiers Modifiers = ConsoleModifiers.None);
+
+/// <summary>
+/// Resolves pointer events to the focusable element under the pointer and dispatches them to it.
+/// </summary>
+/// <remarks>
+/// A click focuses the element and raises its <c>onclick</c> handler. A wheel tick is translated to an
+/// <c>ArrowDown</c>/<c>ArrowUp</c> key press on the nearest element that handles <c>onkeydown</c>, which is how
+/// scrollable components and selects already scroll from the keyboard. Moving the pointer raises
+/// <c>onmouseover</c>, <c>onmousemove</c> and <c>onmouseout</c>; moves are ignored without hit testing while no
+/// element handles any of them.
+/// </remarks>
+internal sealed class MouseEventManager : IObserver<ConsoleRenderer.RenderSnapshot>
+{
+    private static readonly string[] PointerEvents = ["onmouseover", "onmousemove", "onmouseout"];
+
+    private readonly FocusManager _focusManager;
+    private readonly IKeyboardEventDispatcher _dispatcher;
+    private readonly IReadOnlyList<ITranslationMiddleware> _middlewares;
+    private readonly ILogger<MouseEventManager> _logger;
+    private readonly object _sync = new();
+    private VNode? _root;
+    private ElementRegionMap? _regions;
+    private int _regionsWidth = -1;
+    private FocusManager.FocusTarget? _hovered;
+
+    public MouseEventManager(
+        FocusManager focusManager,
+        IKeyboardEventDispatcher dispatcher,
+        IEnumerable<ITranslationMiddleware> middlewares,
+        ILogger<MouseEventManager>? logger = null)
+    {
+        _focusManager = focusManager;
+        _dispatcher = dispatcher;
+        _middlewares = middlewares.ToList();
+        _logger = logger ?? NullLogger<MouseEventManager>.Instance;
+    }
+
+    internal async Task HandleMouseAsync(ConsoleMouseEvent mouseEvent, RenderOptions options, int width, CancellationToken token)
+    {
+        if (mouseEvent.Kind == ConsoleMouseEventKind.Move && !IsTrackingPointer())
+        {
+            return;
+        }
+
+        var targets = GetTargetsAt(mouseEvent.Column, mouseEvent.Row, options, width);
+
+        switch (mouseEvent.Kind)
+        {
+            case ConsoleMouseEventKind.Click:
+                await HandleClickAsync(targets, mouseEvent, token).ConfigureAwait(false);
+                break;
+            case ConsoleMouseEventKind.Wheel:
+                await HandleWheelAsync(targets, mouseEvent, token).ConfigureAwait(false);
+                break;
+            case ConsoleMouseEventKind.Move:
+                await HandleMoveAsync(targets, mouseEvent, token).ConfigureAwait(false);
+                break;
+        }
+    }
+
+    private async Task HandleClickAsync(IReadOnlyList<FocusManager.FocusTarget> targets, ConsoleMouseEvent mouseEvent, CancellationToken token)
+    {
+        if (targets.Count == 0)
+        {
+            return;
+        }
+
+        var target = targets[0];
+        try
+        {
+            await _focusManager.FocusAsync(target.Key, token).ConfigureAwait(false);
+        }
+        catch (OperationCanceledException)
+        {
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogUnableToUpdateFocusTarget(ex);
+        }
+
+        await DispatchMouseEventAsync(target, "onclick", "click", mouseEvent, token).ConfigureAwait(false);
+    }
+
+    private async Task HandleWheelAsync(IReadOnlyList<FocusManager.FocusTarget> targets, ConsoleMouseEvent mouseEvent, CancellationToken token)
+    {
+        if (mouseEvent.WheelDelta == 0)
+        {
+            return;
+        }
+
+        var target = targets.FirstOrDefault(t => t.Events.TryGetEvent("onkeydown", out _));
+        if (target is null || !target.Events.TryGetEvent("onkeydown", out var keyDown))
+        {
+            return;
+        }
+
+        var key = mouseEvent.WheelDelta > 0 ? "ArrowDown" : "ArrowUp";
+        for (var i = 0; i < Math.Abs(mouseEvent.WheelDelta); i++)
+        {
+            var args = new KeyboardEventArgs
+            {
+                Key = key,
+                Code = key,
+                Type = "keydown",
+                CtrlKey = mouseEvent.Modifiers.HasFlag(ConsoleModifiers.Control),
+                AltKey = mouseEvent.Modifiers.HasFlag(ConsoleModifiers.Alt),
+                ShiftKey = mouseEvent.Modifiers.HasFlag(ConsoleModifiers.Shift),
+            };
+
+            await DispatchAsync(keyDown, args, token).ConfigureAwait(false);
+        }
+    }
+
+    private async Task HandleMoveAsync(IReadOnlyList<FocusManager.FocusTarget> targets, ConsoleMouseEvent mouseEvent, CancellationToken token)
+    {
+        var target = targets.Count > 0 ? targets[0] : null;
+
+        FocusManager.FocusTarget? previous;
+        lock (_sync)
+        {
+            previous = _hovered;
+            _hovered = target;
+        }
+
+        if (previous != target)
+        {
+            if (previous is not null)
+            {
+                await DispatchMouseEventAsync(previous, "onmouseout", "mouseout", mouseEvent, token).ConfigureAwait(false);
+            }
+
+            if (target is not null)
+            {
+                await DispatchMouseEventAsync(target, "onmouseover", "mouseover", mouseEvent, token).ConfigureAwait(false);
+            }
+        }
+
+        if (target is not null)
+        {
+            await DispatchMouseEventAsync(target, "onmousemove", "mousemove", mouseEvent, token).ConfigureAwait(false);
+        }
+    }
+
+    // Whether an element handles pointer motion, or the hovered one still has to receive onmouseout
+    private bool IsTrackingPointer()
+    {
+        lock (_sync)
+        {
+            if (_hovered is not null)
+            {
+                return true;
+            }
+        }
+
+        return _focusManager.GetFocusTargets()
+            .Any(target => PointerEvents.Any(name => target.Events.TryGetEvent(name, out _)));
+    }
+
+    /// <summary>
+    /// Returns the focus targets under the cell, innermost first. A target that renders no cells of its own,
+    /// such as the scrollbar of a <c>Scrollable</c>, is hit through the nearest ancestor that does.
+    /// </summary>
+    private IReadOnlyList<FocusManager.FocusTarget> GetTargetsAt(int column, int row, RenderOptions options, int width)
+    {
+        var regions = GetRegions(options, width);
+        var targets = _focusManager.GetFocusTargets();
+        if (targets.Count == 0)
+        {
+            return [];
+        }
+
+        var hitAreas = new Dictionary<VNode, List<FocusManager.FocusTarget>>(ReferenceEqualityComparer.Instance);
+
+        foreach (var target in targets)
+        {
+            if (regions.FindRegion(target.Node) is not { } region)
+            {
+                continue;
+            }
+
+            var owner = region.Node;
+            if (!hitAreas.TryGetValue(owner, out var owned))
+            {
+                owned = [];
+                hitAreas[owner] = owned;
+            }
+
+            owned.Add(target);
+        }
+
+        var result = new List<FocusManager.FocusTarget>();
+        foreach (var region in regions.HitTest(column, row))
+        {
+            if (hitAreas.TryGetValue(region.Node, out var owned))
+            {
+                result.AddRange(owned.Where(t => !result.Contains(t)));
+            }
+        }
+
+        return result;
+    }
+
+    private ElementRegionMap GetRegions(RenderOptions options, int width)
+    {
+        lock (_sync)
+        {
+            if (_root is null)
+            {
+                return ElementRegionMap.Empty;
+            }
+
+            if (_regions is not null && _regionsWidth == width)
+            {
+                return _regions;
+            }
+
+            try
+            {
+                _regions = ElementRegionMap.ForSnapshot(_root, _middlewares, options, width);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogUnableToMeasureElementRegions(ex);
+                _regions = ElementRegionMap.Empty;
+            }
+
+            _regionsWidth = width;
+            return _regions;
+        }
+    }
+
+    private Task DispatchMouseEventAsync(FocusManager.FocusTarget target, string eventName, string type, ConsoleMouseEvent mouseEvent, CancellationToken token)
+    {
+        if (!target.Events.TryGetEvent(eventName, out var nodeEvent))
+        {
+            return Task.CompletedTask;
+        }
+
+        var args = new MouseEventArgs
+        {
+            Type = type,
+            Detail = type == "click" ? 1 : 0,
+            Button = 0,
+            ClientX = mouseEvent.Column,
+            ClientY = mouseEvent.Row,
+            CtrlKey = mouseEvent.Modifiers.HasFlag(ConsoleModifiers.Control),
+            AltKey = mouseEvent.Modifiers.HasFlag(ConsoleModifiers.Alt),
+            ShiftKey = mouseEvent.Modifiers.HasFlag(ConsoleModifiers.Shift),
+        };
+
+        return DispatchAsync(nodeEvent, args, token);
+    }
+
+    private async Task DispatchAsync(VNodeEvent @event, EventArgs args, CancellationToken token)
+    {
+        try
+        {
+            await _dispatcher.DispatchAsync(@event.HandlerId, args, token).ConfigureAwait(false);
+        }
+        catch (OperationCanceledException)
+        {
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogFailedToDispatchHandler(ex, @event.Name);
+        }
+    }
+
+    public void OnNext(ConsoleRenderer.RenderSnapshot value)
+    {
+        lock (_sync)
+        {
+            _root = value.Root;
+            _regions = null;
+        }
+    }
+
+    public void OnError(Exception error)
+    {
+    }
+
+    public void OnCompleted()
+    {
+    }
+}
@@ -21,47 +21,11 @@ public sealed class OverlayRenderable(IRenderable background, IEnumerable<Overla
 
         _overlayMapCache.Clear();
 
-        foreach (var overlay in _sortedOverlays)
+        foreach (var overlay in Arrange(options, maxWidth, canvas.Count))
         {
-            var (widthToRender, finalLeft) = overlay switch
-            {
-                { IsCentered: true } => CalculateCenteredPosition(overlay, options, maxWidth),
-                // CSS-like stretching
-                { Left: { } l, Right: { } r } => (maxWidth - l - r, l),
-                { Right: { } r } => CalculateRightPosition(overlay, r, options, maxWidth),
-                _ => (maxWidth - (overlay.Left ?? 0), overlay.Left ?? 0)
-            };
-
-            (int Width, int Left) CalculateCenteredPosition(OverlayItem item, RenderOptions opt, int maxW)
-            {
-                var measurement = item.Renderable.Measure(opt, maxW);
-                int desiredWidth = Math.Min(measurement.Max, maxW);
-
-                int left = (maxW - desiredWidth) / 2;
-                return (desiredWidth, left);
-            }
-
-            (int Width, int Left) CalculateRightPosition(OverlayItem item, int r, RenderOptions opt, int maxW)
+            for (int i = 0; i < overlay.Lines.Count; i++)
             {
-                var constraint = Math.Max(0, maxW - r);
-                var width = item.Renderable.Measure(opt, constraint).Max;
-                return (width, maxW - r - width);
-            }
-
-            var lines = Segment.SplitLines(
-                overlay.Renderable.Render(options, Math.Max(0, widthToRender))
-            );
-            int finalTop = overlay switch
-            {
-                { IsCentered: true } => Math.Max(0, (canvas.Count - lines.Count) / 2),
-                { Top: { } t } => t,
-                { Bottom: { } b } => Math.Max(0, canvas.Count - b - lines.Count),
-                _ => 0
-            };
-
-            for (int i = 0; i < lines.Count; i++)
-            {
-                int targetY = finalTop + i;
+                int targetY = overlay.Top + i;
                 if (targetY < 0)
                 {
                     continue;
@@ -73,7 +37,7 @@ public sealed class OverlayRenderable(IRenderable background, IEnumerable<Overla
                     _overlayMapCache[targetY] = positions;
                 }
 
-                positions.Add(new OverlayPosition(lines[i], finalLeft));
+                positions.Add(new OverlayPosition(overlay.Lines[i], overlay.Left));
             }
         }
 
@@ -132,6 +96,58 @@ public sealed class OverlayRenderable(IRenderable background, IEnumerable<Overla
         }
     }
 
+    /// <summary>
+    /// Renders every overlay and computes where it is placed on top of a background with the given height,
+    /// in the order the overlays are painted.
+    /// </summary>
+    internal IReadOnlyList<ArrangedOverlay> Arrange(RenderOptions options, int maxWidth, int backgroundHeight)
+    {
+        var arranged = new List<ArrangedOverlay>(_sortedOverlays.Count);
+
+        foreach (var overlay in _sortedOverlays)
+        {
+            var (widthToRender, finalLeft) = overlay switch
+            {
+                { IsCentered: true } => CalculateCenteredPosition(overlay, options, maxWidth),
+                // CSS-like stretching
+                { Left: { } l, Right: { } r } => (maxWidth - l - r, l),
+                { Right: { } r } => CalculateRightPosition(overlay, r, options, maxWidth),
+                _ => (maxWidth - (overlay.Left ?? 0), overlay.Left ?? 0)
+            };
+
+            (int Width, int Left) CalculateCenteredPosition(OverlayItem item, RenderOptions opt, int maxW)
+            {
+                var measurement = item.Renderable.Measure(opt, maxW);
+                int desiredWidth = Math.Min(measurement.Max, maxW);
+
+                int left = (maxW - desiredWidth) / 2;
+                return (desiredWidth, left);
+            }
+
+            (int Width, int Left) CalculateRightPosition(OverlayItem item, int r, RenderOptions opt, int maxW)
+            {
+                var constraint = Math.Max(0, maxW - r);
+                var width = item.Renderable.Measure(opt, constraint).Max;
+                return (width, maxW - r - width);
+            }
+
+            var lines = Segment.SplitLines(
+                overlay.Renderable.Render(options, Math.Max(0, widthToRender))
+            );
+            int finalTop = overlay switch
+            {
+                { IsCentered: true } => Math.Max(0, (backgroundHeight - lines.Count) / 2),
+                { Top: { } t } => t,
+                { Bottom: { } b } => Math.Max(0, backgroundHeight - b - lines.Count),
+                _ => 0
+            };
+
+            arranged.Add(new ArrangedOverlay(lines, finalTop, finalLeft));
+        }
+
+        return arranged;
+    }
+
     private static int ToBuffer(IReadOnlyList<Segment> segments, Cell[] buffer, int maxWidth)
     {
         int cursor = 0;
@@ -208,4 +224,6 @@ public sealed class OverlayRenderable(IRenderable background, IEnumerable<Overla
     private record struct Cell(char Char, Style Style);
 
     private record struct OverlayPosition(SegmentLine Line, int Left);
+
+    internal readonly record struct ArrangedOverlay(List<SegmentLine> Lines, int Top, int Left);
 }
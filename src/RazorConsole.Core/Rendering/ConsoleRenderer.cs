@@ -121,6 +121,22 @@ internal sealed class ConsoleRenderer(
         }
     }
 
+    /// <summary>
+    /// Supplies a new set of parameters to the mounted root component and re-renders it.
+    /// Parameters that are not present in <paramref name="parameters"/> keep their current values.
+    /// </summary>
+    internal Task SetRootParametersAsync(ParameterView parameters)
+    {
+        ObjectDisposedException.ThrowIf(_disposed, this);
+
+        if (_rootComponentId < 0)
+        {
+            throw new InvalidOperationException("No root component has been mounted.");
+        }
+
+        return Dispatcher.InvokeAsync(() => RenderRootComponentAsync(_rootComponentId, parameters));
+    }
+
     public IDisposable Subscribe(IObserver<RenderSnapshot> observer)
     {
         ArgumentNullException.ThrowIfNull(observer);
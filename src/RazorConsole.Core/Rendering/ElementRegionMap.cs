@@ -0,0 +1,338 @@
+// Copyright (c) RazorConsole. All rights reserved.
+
+using System.Runtime.CompilerServices;
+using RazorConsole.Core.Abstractions.Rendering;
+using RazorConsole.Core.Renderables;
+using RazorConsole.Core.Rendering.Translation.Contexts;
+using RazorConsole.Core.Vdom;
+using Spectre.Console.Rendering;
+
+namespace RazorConsole.Core.Rendering;
+
+/// <summary>
+/// A horizontal run of cells occupied by an element on a single rendered line.
+/// </summary>
+internal readonly record struct RegionSpan(int Row, int Column, int Width)
+{
+    public bool Contains(int column, int row)
+        => row == Row && column >= Column && column < Column + Width;
+}
+
+/// <summary>
+/// The cells an element occupies after layout.
+/// </summary>
+/// <param name="Node">The element.</param>
+/// <param name="Depth">Nesting depth of the element in the virtual DOM.</param>
+/// <param name="Layer">0 for the main view, 1 and above for overlays in paint order.</param>
+/// <param name="Spans">The cells covered by the element, one or more runs per line.</param>
+internal sealed record ElementRegion(VNode Node, int Depth, int Layer, IReadOnlyList<RegionSpan> Spans)
+{
+    public bool Contains(int column, int row)
+    {
+        foreach (var span in Spans)
+        {
+            if (span.Contains(column, row))
+            {
+                return true;
+            }
+        }
+
+        return false;
+    }
+}
+
+/// <summary>
+/// Maps virtual DOM elements to the terminal cells they occupy, so pointer positions can be resolved to elements.
+/// </summary>
+/// <remarks>
+/// <para>
+/// The map is built in a measuring pass of its own: the view is translated in a separate
+/// <see cref="TranslationContext"/> with every element wrapped in a renderable that brackets each of its rendered
+/// lines with zero-width control segments, and the cells between the brackets are collected from the rendered
+/// result. The translation the renderer paints never contains the wrappers.
+/// </para>
+/// <para>
+/// The wrappers forward measuring and rendering unchanged, so containers lay out their children exactly as in the
+/// painted view. Direct children of <c>scrollable</c> elements are not wrapped because the scrollable layout depends
+/// on the renderable type of its children.
+/// </para>
+/// </remarks>
+internal sealed class ElementRegionMap
+{
+    private const string BeginMarker = "\0region-begin:";
+    private const string EndMarker = "\0region-end:";
+
+    // keyed by the root of a render snapshot, which the renderer creates anew for every render
+    private static readonly ConditionalWeakTable<VNode, Dictionary<int, ElementRegionMap>> SnapshotMaps = new();
+
+    public static ElementRegionMap Empty { get; } = new([], new(ReferenceEqualityComparer.Instance));
+
+    private readonly Dictionary<VNode, VNode> _parents;
+    private readonly Dictionary<VNode, ElementRegion> _regionsByNode;
+
+    private ElementRegionMap(IReadOnlyList<ElementRegion> regions, Dictionary<VNode, VNode> parents)
+    {
+        Regions = regions;
+        _parents = parents;
+        _regionsByNode = new Dictionary<VNode, ElementRegion>(ReferenceEqualityComparer.Instance);
+        foreach (var region in regions)
+        {
+            _regionsByNode.TryAdd(region.Node, region);
+        }
+    }
+
+    /// <summary>
+    /// Gets the regions of all elements that rendered at least one cell.
+    /// </summary>
+    public IReadOnlyList<ElementRegion> Regions { get; }
+
+    /// <summary>
+    /// Gets the parent element of <paramref name="node"/>, if any.
+    /// </summary>
+    public VNode? GetParent(VNode node) => _parents.GetValueOrDefault(node);
+
+    /// <summary>
+    /// Returns the region of <paramref name="node"/>, or of its nearest ancestor when the node itself has no cells
+    /// of its own, such as text nodes, direct children of a <c>scrollable</c> or elements that render nothing.
+    /// </summary>
+    public ElementRegion? FindRegion(VNode node)
+    {
+        for (VNode? current = node; current is not null; current = GetParent(current))
+        {
+            if (_regionsByNode.TryGetValue(current, out var region))
+            {
+                return region;
+            }
+        }
+
+        return null;
+    }
+
+    /// <summary>
+    /// Returns the regions containing the cell, topmost first: overlays before the main view and
+    /// nested elements before their ancestors.
+    /// </summary>
+    public IEnumerable<ElementRegion> HitTest(int column, int row)
+        => Regions
+            .Where(region => region.Contains(column, row))
+            .OrderByDescending(region => region.Layer)
+            .ThenByDescending(region => region.Depth);
+
+    /// <summary>
+    /// Returns the map of the render snapshot with the given root, measuring it on first use. Mouse input and the
+    /// diagnostics of the website share the result, so a snapshot is measured once for every width it is asked for.
+    /// </summary>
+    public static ElementRegionMap ForSnapshot(VNode root, IEnumerable<ITranslationMiddleware> middlewares, RenderOptions options, int width)
+    {
+        ArgumentNullException.ThrowIfNull(root);
+
+        var maps = SnapshotMaps.GetValue(root, _ => new Dictionary<int, ElementRegionMap>());
+        lock (maps)
+        {
+            if (!maps.TryGetValue(width, out var map))
+            {
+                map = Measure(root, middlewares, options, width);
+                maps[width] = map;
+            }
+
+            return map;
+        }
+    }
+
+    /// <summary>
+    /// Lays out <paramref name="root"/> with the given middlewares and records the cells of every element.
+    /// </summary>
+    public static ElementRegionMap Measure(VNode root, IEnumerable<ITranslationMiddleware> middlewares, RenderOptions options, int width)
+    {
+        ArgumentNullException.ThrowIfNull(root);
+        ArgumentNullException.ThrowIfNull(middlewares);
+
+        var parents = new Dictionary<VNode, VNode>(ReferenceEqualityComparer.Instance);
+        var depths = new Dictionary<VNode, int>(ReferenceEqualityComparer.Instance);
+        var unwrapped = new HashSet<VNode>(ReferenceEqualityComparer.Instance);
+        CollectStructure(root, 0, parents, depths, unwrapped);
+
+        var elements = new List<VNode>();
+        var (main, mainLines, context) = RenderMarked(root, middlewares, options, width, elements, unwrapped);
+        var collector = new SpanCollector(elements.Count);
+        collector.Collect(mainLines, top: 0, left: 0, layer: 0);
+
+        if (context.CollectedOverlays.Count > 0)
+        {
+            var overlays = new OverlayRenderable(main, context.CollectedOverlays).Arrange(options, width, mainLines.Count);
+            for (var i = 0; i < overlays.Count; i++)
+            {
+                collector.Collect(overlays[i].Lines, overlays[i].Top, overlays[i].Left, layer: i + 1);
+            }
+        }
+
+        var regions = new List<ElementRegion>();
+        for (var id = 0; id < elements.Count; id++)
+        {
+            var (spans, layer) = collector.GetSpans(id);
+            if (spans.Count > 0)
+            {
+                regions.Add(new ElementRegion(elements[id], depths.GetValueOrDefault(elements[id]), layer, spans));
+            }
+        }
+
+        return new ElementRegionMap(regions, parents);
+    }
+
+    /// <summary>
+    /// Renders the main view of the measuring pass with the region markers removed, which has to match what the
+    /// renderer paints for the same tree.
+    /// </summary>
+    internal static List<SegmentLine> RenderMeasuringPass(VNode root, IEnumerable<ITranslationMiddleware> middlewares, RenderOptions options, int width)
+    {
+        var unwrapped = new HashSet<VNode>(ReferenceEqualityComparer.Instance);
+        CollectStructure(root, 0, new(ReferenceEqualityComparer.Instance), new(ReferenceEqualityComparer.Instance), unwrapped);
+
+        var (_, lines, _) = RenderMarked(root, middlewares, options, width, [], unwrapped);
+        return lines
+            .Select(line => new SegmentLine(line.Where(segment => !(segment.IsControlCode && TryParseMarker(segment.Text, out _, out _)))))
+            .ToList();
+    }
+
+    private static (IRenderable Main, List<SegmentLine> Lines, TranslationContext Context) RenderMarked(
+        VNode root,
+        IEnumerable<ITranslationMiddleware> middlewares,
+        RenderOptions options,
+        int width,
+        List<VNode> elements,
+        HashSet<VNode> unwrapped)
+    {
+        var marker = new RegionMarkerMiddleware(elements, unwrapped);
+        var context = new TranslationContext([marker, .. middlewares]);
+
+        var main = context.Translate(root);
+        return (main, Segment.SplitLines(main.Render(options, width)), context);
+    }
+
+    private static bool TryParseMarker(string text, out int id, out bool isBegin)
+    {
+        id = -1;
+        isBegin = text.StartsWith(BeginMarker, StringComparison.Ordinal);
+        var prefix = isBegin ? BeginMarker : EndMarker;
+
+        return (isBegin || text.StartsWith(EndMarker, StringComparison.Ordinal))
+            && int.TryParse(text.AsSpan(prefix.Length), out id);
+    }
+
+    private static void CollectStructure(VNode node, int depth, Dictionary<VNode, VNode> parents, Dictionary<VNode, int> depths, HashSet<VNode> unwrapped)
+    {
+        depths[node] = depth;
+        var isScrollable = string.Equals(node.TagName, "scrollable", StringComparison.OrdinalIgnoreCase);
+
+        foreach (var child in node.Children)
+        {
+            parents[child] = node;
+            if (isScrollable)
+            {
+                unwrapped.Add(child);
+            }
+
+            CollectStructure(child, depth + 1, parents, depths, unwrapped);
+        }
+    }
+
+    private sealed class RegionMarkerMiddleware(List<VNode> elements, HashSet<VNode> unwrapped) : ITranslationMiddleware
+    {
+        public IRenderable Translate(TranslationContext context, TranslationDelegate next, VNode node)
+        {
+            var renderable = next(node);
+            if (node.Kind != VNodeKind.Element || unwrapped.Contains(node))
+            {
+                return renderable;
+            }
+
+            elements.Add(node);
+            return new RegionMarkerRenderable(elements.Count - 1, renderable);
+        }
+    }
+
+    private sealed class RegionMarkerRenderable(int regionId, IRenderable inner) : IRenderable
+    {
+        public Measurement Measure(RenderOptions options, int maxWidth) => inner.Measure(options, maxWidth);
+
+        public IEnumerable<Segment> Render(RenderOptions options, int maxWidth)
+        {
+            var begin = Segment.Control(BeginMarker + regionId);
+            var end = Segment.Control(EndMarker + regionId);
+
+            yield return begin;
+            foreach (var segment in inner.Render(options, maxWidth))
+            {
+                if (segment.IsLineBreak)
+                {
+                    yield return end;
+                    yield return segment;
+                    yield return begin;
+                    continue;
+                }
+
+                yield return segment;
+            }
+
+            yield return end;
+        }
+    }
+
+    private sealed class SpanCollector(int regionCount)
+    {
+        private readonly List<RegionSpan>[] _spans = Enumerable.Range(0, regionCount).Select(_ => new List<RegionSpan>()).ToArray();
+        private readonly int[] _layers = new int[regionCount];
+
+        public (IReadOnlyList<RegionSpan> Spans, int Layer) GetSpans(int regionId) => (_spans[regionId], _layers[regionId]);
+
+        public void Collect(IReadOnlyList<SegmentLine> lines, int top, int left, int layer)
+        {
+            // Regions whose end marker was dropped by a container stay open across lines.
+            var open = new Dictionary<int, int>();
+
+            for (var row = 0; row < lines.Count; row++)
+            {
+                var column = 0;
+                foreach (var id in open.Keys.ToList())
+                {
+                    open[id] = 0;
+                }
+
+                foreach (var segment in lines[row])
+                {
+                    if (segment.IsControlCode && TryParseMarker(segment.Text, out var id, out var isBegin))
+                    {
+                        if (isBegin)
+                        {
+                            open[id] = column;
+                        }
+                        else if (open.Remove(id, out var start))
+                        {
+                            AddSpan(id, top + row, left + start, column - start, layer);
+                        }
+
+                        continue;
+                    }
+
+                    column += segment.CellCount();
+                }
+
+                foreach (var (id, start) in open)
+                {
+                    AddSpan(id, top + row, left + start, column - start, layer);
+                }
+            }
+        }
+
+        private void AddSpan(int id, int row, int column, int width, int layer)
+        {
+            if (id < 0 || id >= _spans.Length || width <= 0)
+            {
+                return;
+            }
+
+            _spans[id].Add(new RegionSpan(row, column, width));
+            _layers[id] = Math.Max(_layers[id], layer);
+        }
+    }
+}
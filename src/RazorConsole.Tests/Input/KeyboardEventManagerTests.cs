@@ -478,6 +478,48 @@ public class KeyboardEventManagerTests
         args.Value.ShouldBe("help!");
     }
 
+    [Fact]
+    public async Task HandlePasteAsync_AppendsWholeTextInSingleInputEvent()
+    {
+        await using var harness = await KeyboardHarness.CreateAsync(
+            new FocusElementSpec(
+                key: "input",
+                value: "say ",
+                events: new Dictionary<string, ulong>
+                {
+                    ["onpaste"] = 800,
+                    ["oninput"] = 801,
+                    ["onchange"] = 802,
+                }));
+
+        await harness.Manager.HandlePasteAsync("你好 👋\r\nworld\u0007", CancellationToken.None);
+
+        harness.Dispatcher.Events.Count.ShouldBe(2);
+        harness.Dispatcher.Events[0].HandlerId.ShouldBe(800UL);
+        harness.Dispatcher.Events[0].Args.ShouldBeOfType<ClipboardEventArgs>().Type.ShouldBe("paste");
+        harness.Dispatcher.Events[1].HandlerId.ShouldBe(801UL);
+        harness.Dispatcher.Events[1].Args.ShouldBeOfType<ChangeEventArgs>().Value.ShouldBe("say 你好 👋 world");
+    }
+
+    [Fact]
+    public async Task HandleKeyAsync_BackspaceAfterPastedEmoji_RemovesWholeSurrogatePair()
+    {
+        await using var harness = await KeyboardHarness.CreateAsync(
+            new FocusElementSpec(
+                key: "input",
+                value: string.Empty,
+                events: new Dictionary<string, ulong>
+                {
+                    ["oninput"] = 900,
+                }));
+
+        await harness.Manager.HandlePasteAsync("a👋", CancellationToken.None);
+        var backspace = new ConsoleKeyInfo('\b', ConsoleKey.Backspace, shift: false, alt: false, control: false);
+        await harness.Manager.HandleKeyAsync(backspace, CancellationToken.None);
+
+        harness.Dispatcher.Events.Last().Args.ShouldBeOfType<ChangeEventArgs>().Value.ShouldBe("a");
+    }
+
     private sealed class KeyboardHarness : IAsyncDisposable
     {
         private readonly ConsoleRenderer _renderer;
@@ -0,0 +1,184 @@
+// Copyright (c) RazorConsole. All rights reserved.
+
+using Microsoft.AspNetCore.Components.Web;
+using Microsoft.Extensions.DependencyInjection;
+using RazorConsole.Core;
+using RazorConsole.Core.Abstractions.Rendering;
+using RazorConsole.Core.Focus;
+using RazorConsole.Core.Input;
+using RazorConsole.Core.Rendering;
+using RazorConsole.Core.Rendering.ComponentMarkup;
+using RazorConsole.Core.Vdom;
+using Spectre.Console;
+using Spectre.Console.Rendering;
+
+namespace RazorConsole.Tests.Input;
+
+public class MouseEventManagerTests
+{
+    [Fact]
+    public async Task HandleMouseAsync_Click_FocusesAndClicksElementUnderPointer()
+    {
+        var harness = MouseHarness.Create(
+            Text("first", new Dictionary<string, ulong> { ["onclick"] = 1 }),
+            Text("second", new Dictionary<string, ulong> { ["onclick"] = 2 }));
+
+        harness.FocusManager.CurrentFocusKey.ShouldBe("first");
+
+        await harness.Manager.HandleMouseAsync(new ConsoleMouseEvent(ConsoleMouseEventKind.Click, 2, 1), harness.Options, 40, CancellationToken.None);
+
+        harness.FocusManager.CurrentFocusKey.ShouldBe("second");
+        var dispatched = harness.Dispatcher.Events.ShouldHaveSingleItem();
+        dispatched.HandlerId.ShouldBe(2UL);
+        var args = dispatched.Args.ShouldBeOfType<MouseEventArgs>();
+        args.Type.ShouldBe("click");
+        args.ClientX.ShouldBe(2d);
+        args.ClientY.ShouldBe(1d);
+    }
+
+    [Fact]
+    public async Task HandleMouseAsync_ClickOutsideElements_DoesNothing()
+    {
+        var harness = MouseHarness.Create(
+            Text("first", new Dictionary<string, ulong> { ["onclick"] = 1 }));
+
+        await harness.Manager.HandleMouseAsync(new ConsoleMouseEvent(ConsoleMouseEventKind.Click, 30, 5), harness.Options, 40, CancellationToken.None);
+
+        harness.Dispatcher.Events.ShouldBeEmpty();
+    }
+
+    [Fact]
+    public async Task HandleMouseAsync_Wheel_SendsArrowKeysToElementUnderPointer()
+    {
+        var harness = MouseHarness.Create(
+            Text("first", new Dictionary<string, ulong> { ["onkeydown"] = 1 }),
+            Text("second", new Dictionary<string, ulong> { ["onkeydown"] = 2 }));
+
+        await harness.Manager.HandleMouseAsync(new ConsoleMouseEvent(ConsoleMouseEventKind.Wheel, 0, 1, WheelDelta: 2), harness.Options, 40, CancellationToken.None);
+        await harness.Manager.HandleMouseAsync(new ConsoleMouseEvent(ConsoleMouseEventKind.Wheel, 0, 1, WheelDelta: -1), harness.Options, 40, CancellationToken.None);
+
+        harness.Dispatcher.Events.Count.ShouldBe(3);
+        harness.Dispatcher.Events.ShouldAllBe(e => e.HandlerId == 2UL);
+        harness.Dispatcher.Events.Select(e => ((KeyboardEventArgs)e.Args).Key)
+            .ShouldBe(new[] { "ArrowDown", "ArrowDown", "ArrowUp" });
+        harness.FocusManager.CurrentFocusKey.ShouldBe("first");
+    }
+
+    [Fact]
+    public async Task HandleMouseAsync_Move_RaisesOverAndOutWhenHoverChanges()
+    {
+        var harness = MouseHarness.Create(
+            Text("first", new Dictionary<string, ulong> { ["onmouseover"] = 1, ["onmouseout"] = 2 }),
+            Text("second", new Dictionary<string, ulong> { ["onmouseover"] = 3 }));
+
+        await harness.Manager.HandleMouseAsync(new ConsoleMouseEvent(ConsoleMouseEventKind.Move, 0, 0), harness.Options, 40, CancellationToken.None);
+        await harness.Manager.HandleMouseAsync(new ConsoleMouseEvent(ConsoleMouseEventKind.Move, 1, 0), harness.Options, 40, CancellationToken.None);
+        await harness.Manager.HandleMouseAsync(new ConsoleMouseEvent(ConsoleMouseEventKind.Move, 0, 1), harness.Options, 40, CancellationToken.None);
+
+        harness.Dispatcher.Events.Select(e => e.HandlerId).ShouldBe(new[] { 1UL, 2UL, 3UL });
+    }
+
+    [Fact]
+    public async Task HandleMouseAsync_TargetWithoutCells_IsHitThroughParent()
+    {
+        var scrollbar = VNode.CreateElement("div");
+        scrollbar.SetAttribute("data-focusable", "true");
+        scrollbar.SetKey("scrollbar");
+        scrollbar.SetEvent("onkeydown", 7);
+
+        var panel = VNode.CreateElement("div");
+        panel.SetAttribute("class", "panel");
+        panel.AddChild(Text("content"));
+        panel.AddChild(scrollbar);
+
+        var harness = MouseHarness.Create(panel);
+
+        await harness.Manager.HandleMouseAsync(new ConsoleMouseEvent(ConsoleMouseEventKind.Wheel, 3, 1, WheelDelta: 1), harness.Options, 40, CancellationToken.None);
+
+        harness.Dispatcher.Events.ShouldHaveSingleItem().HandlerId.ShouldBe(7UL);
+    }
+
+    private static VNode Text(string key, IReadOnlyDictionary<string, ulong>? events = null)
+    {
+        var node = VNode.CreateElement("span");
+        node.SetAttribute("data-text", "true");
+        node.SetKey(key);
+        node.AddChild(VNode.CreateText(key));
+
+        if (events is not null)
+        {
+            node.SetAttribute("data-focusable", "true");
+            foreach (var (name, handlerId) in events)
+            {
+                node.SetEvent(name, handlerId);
+            }
+        }
+
+        return node;
+    }
+
+    private sealed class MouseHarness
+    {
+        private MouseHarness(FocusManager focusManager, MouseEventManager manager, TestDispatcher dispatcher, RenderOptions options)
+        {
+            FocusManager = focusManager;
+            Manager = manager;
+            Dispatcher = dispatcher;
+            Options = options;
+        }
+
+        public FocusManager FocusManager { get; }
+
+        public MouseEventManager Manager { get; }
+
+        public TestDispatcher Dispatcher { get; }
+
+        public RenderOptions Options { get; }
+
+        public static MouseHarness Create(params VNode[] children)
+        {
+            var services = new ServiceCollection();
+            services.AddRazorConsoleServices();
+            var middlewares = services.BuildServiceProvider().GetServices<ITranslationMiddleware>();
+
+            var root = VNode.CreateElement("div");
+            root.SetAttribute("class", "rows");
+            foreach (var child in children)
+            {
+                root.AddChild(child);
+            }
+
+            var focusManager = new FocusManager();
+            var dispatcher = new TestDispatcher();
+            var manager = new MouseEventManager(focusManager, dispatcher, middlewares);
+
+            var snapshot = new ConsoleRenderer.RenderSnapshot(root, new Markup(string.Empty), Array.Empty<IAnimatedConsoleRenderable>());
+            ((IObserver<ConsoleRenderer.RenderSnapshot>)focusManager).OnNext(snapshot);
+            ((IObserver<ConsoleRenderer.RenderSnapshot>)manager).OnNext(snapshot);
+
+            var console = AnsiConsole.Create(new AnsiConsoleSettings
+            {
+                Ansi = AnsiSupport.No,
+                ColorSystem = ColorSystemSupport.NoColors,
+                Out = new AnsiConsoleOutput(TextWriter.Null),
+            });
+
+            return new MouseHarness(focusManager, manager, dispatcher, new RenderOptions(console.Profile.Capabilities, new Size(40, 10)));
+        }
+    }
+
+    private sealed class TestDispatcher : IKeyboardEventDispatcher
+    {
+        private readonly List<DispatchedEvent> _events = new();
+
+        public IReadOnlyList<DispatchedEvent> Events => _events;
+
+        public Task DispatchAsync(ulong handlerId, EventArgs eventArgs, CancellationToken cancellationToken)
+        {
+            _events.Add(new DispatchedEvent(handlerId, eventArgs));
+            return Task.CompletedTask;
+        }
+    }
+
+    private readonly record struct DispatchedEvent(ulong HandlerId, EventArgs Args);
+}
@@ -87,6 +87,43 @@ public sealed class ConsoleRendererTests
         text.Text.ShouldBe("Test");
     }
 
+    [Fact]
+    public async Task SetRootParametersAsync_ReRendersRootComponentWithNewParameters()
+    {
+        using var renderer = TestHelpers.CreateTestRenderer();
+        var parameters = ParameterView.FromDictionary(new Dictionary<string, object?>
+        {
+            { "Text", "Before" }
+        });
+        await renderer.MountComponentAsync<ParameterComponent>(parameters, CancellationToken.None);
+
+        var tcs = new TaskCompletionSource<ConsoleRenderer.RenderSnapshot>();
+        using var sub = renderer.Subscribe(new SimpleObserver(s =>
+        {
+            if (FindDiv(s.Root)?.Children.SingleOrDefault()?.Text == "After")
+            {
+                tcs.TrySetResult(s);
+            }
+        }));
+
+        await renderer.SetRootParametersAsync(ParameterView.FromDictionary(new Dictionary<string, object?>
+        {
+            { "Text", "After" }
+        }));
+
+        var updatedSnapshot = await tcs.Task.WaitAsync(TimeSpan.FromSeconds(1), TestContext.Current.CancellationToken);
+        FindDiv(updatedSnapshot.Root).ShouldNotBeNull().Children.Single().Text.ShouldBe("After");
+    }
+
+    [Fact]
+    public async Task SetRootParametersAsync_WithoutMountedComponent_ThrowsInvalidOperationException()
+    {
+        using var renderer = TestHelpers.CreateTestRenderer();
+
+        await Should.ThrowAsync<InvalidOperationException>(async () =>
+            await renderer.SetRootParametersAsync(ParameterView.Empty));
+    }
+
     [Fact]
     public async Task UpdatesAttribute_InsideRegion_AppliesCorrectly()
     {
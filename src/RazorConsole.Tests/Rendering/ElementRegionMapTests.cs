@@ -0,0 +1,192 @@
+// Copyright (c) RazorConsole. All rights reserved.
+
+using Microsoft.Extensions.DependencyInjection;
+using RazorConsole.Core;
+using RazorConsole.Core.Abstractions.Rendering;
+using RazorConsole.Core.Rendering;
+using RazorConsole.Core.Rendering.Translation.Contexts;
+using RazorConsole.Core.Vdom;
+using Spectre.Console;
+using Spectre.Console.Rendering;
+
+namespace RazorConsole.Tests.Rendering;
+
+public class ElementRegionMapTests
+{
+    private const int Width = 40;
+
+    [Fact]
+    public void FindRegion_Element_ReturnsItsOwnCells()
+    {
+        var first = Span("first");
+        var second = Span("second");
+        var map = Measure(Rows(first, second));
+
+        var region = map.FindRegion(second).ShouldNotBeNull();
+
+        region.Node.ShouldBeSameAs(second);
+        region.Spans.ShouldHaveSingleItem().ShouldBe(new RegionSpan(1, 0, 6));
+    }
+
+    [Fact]
+    public void FindRegion_NodeWithoutCells_ReturnsNearestAncestor()
+    {
+        var span = Span("content");
+        var root = Rows(span);
+        var map = Measure(root);
+
+        var text = span.Children.ShouldHaveSingleItem();
+
+        map.FindRegion(text).ShouldNotBeNull().Node.ShouldBeSameAs(span);
+    }
+
+    [Fact]
+    public void FindRegion_NodeOutsideTheView_ReturnsNull()
+    {
+        var map = Measure(Rows(Span("first")));
+
+        map.FindRegion(Span("detached")).ShouldBeNull();
+    }
+
+    [Fact]
+    public void ForSnapshot_SameRootAndWidth_ReturnsTheCachedMap()
+    {
+        var root = Rows(Span("first"));
+        var (middlewares, options) = CreateRenderer();
+
+        var first = ElementRegionMap.ForSnapshot(root, middlewares, options, Width);
+
+        ElementRegionMap.ForSnapshot(root, middlewares, options, Width).ShouldBeSameAs(first);
+        ElementRegionMap.ForSnapshot(root, middlewares, options, Width - 1).ShouldNotBeSameAs(first);
+    }
+
+    [Fact]
+    public void Measure_Columns_KeepsTheLayout()
+    {
+        var columns = Element("div", ("class", "columns"));
+        columns.AddChild(Span("first"));
+        columns.AddChild(Span("a much longer second column"));
+        columns.AddChild(Span("third"));
+
+        ShouldLayOutAsPainted(columns);
+    }
+
+    [Fact]
+    public void Measure_Grid_KeepsTheLayout()
+    {
+        var grid = Element("div", ("class", "grid"), ("data-columns", "2"));
+        grid.AddChild(Span("name"));
+        grid.AddChild(Span("value"));
+        grid.AddChild(Span("a longer name"));
+        grid.AddChild(Span("a value that has to wrap inside of its column"));
+
+        ShouldLayOutAsPainted(grid);
+    }
+
+    [Fact]
+    public void Measure_Table_KeepsTheLayout()
+    {
+        var table = Element("table");
+        var head = Element("thead");
+        head.AddChild(Row("th", "Name", "Description"));
+        var body = Element("tbody");
+        body.AddChild(Row("td", "Panel", "Draws a border around its content"));
+        body.AddChild(Row("td", "Grid", "Lays its children out in columns"));
+        table.AddChild(head);
+        table.AddChild(body);
+
+        ShouldLayOutAsPainted(table);
+    }
+
+    [Fact]
+    public void Measure_Panel_KeepsTheLayout()
+    {
+        var inner = Element("div", ("class", "panel"), ("data-border", "square"));
+        inner.AddChild(Span("inner"));
+
+        var panel = Element("div", ("class", "panel"), ("data-header", "Title"), ("data-padding", "1 0 1 0"));
+        panel.AddChild(Span("content that is long enough to wrap at forty columns"));
+        panel.AddChild(inner);
+
+        ShouldLayOutAsPainted(panel);
+    }
+
+    private static void ShouldLayOutAsPainted(VNode root)
+    {
+        var (middlewares, options) = CreateRenderer();
+
+        var painted = Segment.SplitLines(new TranslationContext(middlewares).Translate(root).Render(options, Width));
+        var measured = ElementRegionMap.RenderMeasuringPass(root, middlewares, options, Width);
+
+        ToText(measured).ShouldBe(ToText(painted));
+    }
+
+    private static string[] ToText(IEnumerable<SegmentLine> lines)
+        => lines.Select(line => string.Concat(line.Where(segment => !segment.IsControlCode).Select(segment => segment.Text))).ToArray();
+
+    private static VNode Element(string tagName, params (string Name, string Value)[] attributes)
+    {
+        var node = VNode.CreateElement(tagName);
+        foreach (var (name, value) in attributes)
+        {
+            node.SetAttribute(name, value);
+        }
+
+        return node;
+    }
+
+    private static VNode Row(string cellTagName, params string[] cells)
+    {
+        var row = Element("tr");
+        foreach (var text in cells)
+        {
+            var cell = Element(cellTagName);
+            cell.AddChild(Span(text));
+            row.AddChild(cell);
+        }
+
+        return row;
+    }
+
+    private static VNode Span(string text)
+    {
+        var node = VNode.CreateElement("span");
+        node.SetAttribute("data-text", "true");
+        node.AddChild(VNode.CreateText(text));
+        return node;
+    }
+
+    private static VNode Rows(params VNode[] children)
+    {
+        var root = VNode.CreateElement("div");
+        root.SetAttribute("class", "rows");
+        foreach (var child in children)
+        {
+            root.AddChild(child);
+        }
+
+        return root;
+    }
+
+    private static ElementRegionMap Measure(VNode root)
+    {
+        var (middlewares, options) = CreateRenderer();
+        return ElementRegionMap.Measure(root, middlewares, options, Width);
+    }
+
+    private static (IReadOnlyList<ITranslationMiddleware> Middlewares, RenderOptions Options) CreateRenderer()
+    {
+        var services = new ServiceCollection();
+        services.AddRazorConsoleServices();
+        var middlewares = services.BuildServiceProvider().GetServices<ITranslationMiddleware>().ToList();
+
+        var console = AnsiConsole.Create(new AnsiConsoleSettings
+        {
+            Ansi = AnsiSupport.No,
+            ColorSystem = ColorSystemSupport.NoColors,
+            Out = new AnsiConsoleOutput(TextWriter.Null),
+        });
+
+        return (middlewares, new RenderOptions(console.Profile.Capabilities, new Size(Width, 10)));
+    }
+}
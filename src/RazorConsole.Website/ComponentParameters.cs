@@ -0,0 +1,199 @@
+// Copyright (c) RazorConsole. All rights reserved.
+
+using System.Diagnostics.CodeAnalysis;
+using System.Reflection;
+using System.Text;
+using System.Text.Json;
+using Microsoft.AspNetCore.Components;
+using Spectre.Console;
+
+namespace RazorConsole.Website;
+
+/// <summary>
+/// Describes and converts the parameters of a preview component so they can be edited from the website playground.
+/// </summary>
+internal static class ComponentParameters
+{
+    private static readonly Dictionary<string, BoxBorder> BoxBorders = new(StringComparer.OrdinalIgnoreCase)
+    {
+        ["None"] = BoxBorder.None,
+        ["Ascii"] = BoxBorder.Ascii,
+        ["Double"] = BoxBorder.Double,
+        ["Heavy"] = BoxBorder.Heavy,
+        ["Rounded"] = BoxBorder.Rounded,
+        ["Square"] = BoxBorder.Square,
+    };
+
+    /// <summary>
+    /// Returns a JSON array describing every editable parameter of the component with its default value
+    /// and, for enum-like types, the list of allowed values.
+    /// </summary>
+    public static string Describe([DynamicallyAccessedMembers(DynamicallyAccessedMemberTypes.All)] Type componentType)
+    {
+        var defaults = Activator.CreateInstance(componentType);
+
+        using var stream = new MemoryStream();
+        using (var writer = new Utf8JsonWriter(stream))
+        {
+            writer.WriteStartArray();
+            foreach (var property in GetEditableParameters(componentType))
+            {
+                writer.WriteStartObject();
+                writer.WriteString("name", property.Name);
+                writer.WritePropertyName("value");
+                WriteValue(writer, property.GetValue(defaults));
+
+                var options = GetOptions(property.PropertyType);
+                if (options is not null)
+                {
+                    writer.WriteStartArray("options");
+                    foreach (var option in options)
+                    {
+                        writer.WriteStringValue(option);
+                    }
+                    writer.WriteEndArray();
+                }
+
+                writer.WriteEndObject();
+            }
+            writer.WriteEndArray();
+        }
+
+        return Encoding.UTF8.GetString(stream.ToArray());
+    }
+
+    /// <summary>
+    /// Converts a JSON object of parameter values sent from the browser into typed component parameters.
+    /// </summary>
+    public static Dictionary<string, object?> Parse([DynamicallyAccessedMembers(DynamicallyAccessedMemberTypes.All)] Type componentType, string parametersJson)
+    {
+        var properties = GetEditableParameters(componentType).ToDictionary(p => p.Name, StringComparer.Ordinal);
+        var parameters = new Dictionary<string, object?>(StringComparer.Ordinal);
+
+        using var document = JsonDocument.Parse(parametersJson);
+        foreach (var entry in document.RootElement.EnumerateObject())
+        {
+            if (!properties.TryGetValue(entry.Name, out var property))
+            {
+                throw new ArgumentException($"'{componentType.Name}' has no editable parameter named '{entry.Name}'.", nameof(parametersJson));
+            }
+
+            parameters[property.Name] = ConvertValue(entry.Value, property.PropertyType);
+        }
+
+        return parameters;
+    }
+
+    private static IEnumerable<PropertyInfo> GetEditableParameters([DynamicallyAccessedMembers(DynamicallyAccessedMemberTypes.All)] Type componentType)
+    {
+        return componentType
+            .GetProperties(BindingFlags.Public | BindingFlags.Instance)
+            .Where(p => p.CanWrite && p.IsDefined(typeof(ParameterAttribute)) && IsSupported(p.PropertyType));
+    }
+
+    private static bool IsSupported(Type type)
+    {
+        var target = Nullable.GetUnderlyingType(type) ?? type;
+        return target == typeof(bool)
+            || target == typeof(int)
+            || target == typeof(double)
+            || target == typeof(string)
+            || target == typeof(Color)
+            || target == typeof(BoxBorder)
+            || target.IsEnum;
+    }
+
+    private static IEnumerable<string>? GetOptions(Type type)
+    {
+        var target = Nullable.GetUnderlyingType(type) ?? type;
+        if (target == typeof(BoxBorder))
+        {
+            return BoxBorders.Keys;
+        }
+
+        return target.IsEnum ? Enum.GetNames(target) : null;
+    }
+
+    private static object? ConvertValue(JsonElement value, Type type)
+    {
+        var target = Nullable.GetUnderlyingType(type) ?? type;
+
+        if (value.ValueKind == JsonValueKind.Null)
+        {
+            if (target.IsValueType && target == type)
+            {
+                throw new ArgumentException($"A value is required for parameters of type '{type.Name}'.");
+            }
+            return null;
+        }
+
+        if (target == typeof(bool))
+        {
+            return value.GetBoolean();
+        }
+        if (target == typeof(int))
+        {
+            return value.GetInt32();
+        }
+        if (target == typeof(double))
+        {
+            return value.GetDouble();
+        }
+        if (target == typeof(string))
+        {
+            return value.GetString();
+        }
+        if (target == typeof(Color))
+        {
+            // Accepts both color names ("blue") and hex values ("#0000ff")
+            return Style.Parse(value.GetString() ?? string.Empty).Foreground;
+        }
+        if (target == typeof(BoxBorder))
+        {
+            var name = value.GetString() ?? string.Empty;
+            return BoxBorders.TryGetValue(name, out var border)
+                ? border
+                : throw new ArgumentException($"Unknown box border '{name}'.");
+        }
+        if (target.IsEnum)
+        {
+            return Enum.Parse(target, value.GetString() ?? string.Empty, ignoreCase: true);
+        }
+
+        throw new NotSupportedException($"Parameters of type '{type.Name}' cannot be edited.");
+    }
+
+    private static void WriteValue(Utf8JsonWriter writer, object? value)
+    {
+        switch (value)
+        {
+            case null:
+                writer.WriteNullValue();
+                break;
+            case bool b:
+                writer.WriteBooleanValue(b);
+                break;
+            case int i:
+                writer.WriteNumberValue(i);
+                break;
+            case double d:
+                writer.WriteNumberValue(d);
+                break;
+            case string s:
+                writer.WriteStringValue(s);
+                break;
+            case Color color:
+                writer.WriteStringValue($"#{color.ToHex()}");
+                break;
+            case BoxBorder border:
+                writer.WriteStringValue(BoxBorders.FirstOrDefault(p => ReferenceEquals(p.Value, border)).Key);
+                break;
+            case Enum e:
+                writer.WriteStringValue(e.ToString());
+                break;
+            default:
+                writer.WriteNullValue();
+                break;
+        }
+    }
+}
@@ -0,0 +1,150 @@
+// Copyright (c) RazorConsole. All rights reserved.
+
+using System.Text;
+using System.Text.Json;
+using RazorConsole.Core.Abstractions.Rendering;
+using RazorConsole.Core.Focus;
+using RazorConsole.Core.Rendering;
+using RazorConsole.Core.Vdom;
+using Spectre.Console.Rendering;
+
+namespace RazorConsole.Website;
+
+/// <summary>
+/// Reports the cells of every focusable element of a preview, in Tab order, together with the current focus key
+/// so the website can outline them in its focus overlay.
+/// </summary>
+/// <remarks>
+/// Nothing is measured until the overlay is enabled, and a report is only sent when it differs from the previous one,
+/// so animations that do not move focusable elements stay cheap.
+/// </remarks>
+internal sealed class FocusRegionReporter(
+    FocusManager focusManager,
+    IEnumerable<ITranslationMiddleware> middlewares,
+    Action<string> report) : IObserver<ConsoleRenderer.RenderSnapshot>
+{
+    private readonly IReadOnlyList<ITranslationMiddleware> _middlewares = middlewares.ToList();
+    private readonly Lock _sync = new();
+    private VNode? _root;
+    private string? _lastReport;
+    private bool _enabled;
+
+    /// <summary>
+    /// Starts or stops reporting. Enabling always sends the current regions, even when they were reported before.
+    /// </summary>
+    public void SetEnabled(bool enabled, RenderOptions options, int width)
+    {
+        lock (_sync)
+        {
+            _enabled = enabled;
+            _lastReport = null;
+        }
+
+        if (enabled)
+        {
+            Report(options, width);
+        }
+    }
+
+    /// <summary>
+    /// Measures the focusable elements of the latest frame and reports them when anything changed.
+    /// </summary>
+    public void Report(RenderOptions options, int width)
+    {
+        VNode? root;
+        lock (_sync)
+        {
+            if (!_enabled)
+            {
+                return;
+            }
+
+            root = _root;
+        }
+
+        var description = Describe(root, options, width);
+
+        lock (_sync)
+        {
+            if (!_enabled || description == _lastReport)
+            {
+                return;
+            }
+
+            _lastReport = description;
+        }
+
+        report(description);
+    }
+
+    private string Describe(VNode? root, RenderOptions options, int width)
+    {
+        var map = root is null ? null : ElementRegionMap.ForSnapshot(root, _middlewares, options, width);
+
+        using var stream = new MemoryStream();
+        using (var writer = new Utf8JsonWriter(stream))
+        {
+            writer.WriteStartObject();
+
+            if (focusManager.CurrentFocusKey is { } focusKey)
+            {
+                writer.WriteString("focusKey", focusKey);
+            }
+            else
+            {
+                writer.WriteNull("focusKey");
+            }
+
+            writer.WriteStartArray("targets");
+            var targets = focusManager.GetFocusTargets();
+            for (var order = 0; order < targets.Count; order++)
+            {
+                var target = targets[order];
+                writer.WriteStartObject();
+                writer.WriteString("key", target.Key);
+                writer.WriteNumber("order", order);
+                writer.WriteString("tagName", target.Node.TagName);
+
+                // Targets that are not on screen, e.g. scrolled out of a viewport, are listed without cells.
+                writer.WriteStartArray("spans");
+                foreach (var span in map?.FindRegion(target.Node)?.Spans ?? [])
+                {
+                    writer.WriteStartArray();
+                    writer.WriteNumberValue(span.Row);
+                    writer.WriteNumberValue(span.Column);
+                    writer.WriteNumberValue(span.Width);
+                    writer.WriteEndArray();
+                }
+                writer.WriteEndArray();
+
+                writer.WriteEndObject();
+            }
+            writer.WriteEndArray();
+
+            writer.WriteEndObject();
+        }
+
+        return Encoding.UTF8.GetString(stream.ToArray());
+    }
+
+    public void OnNext(ConsoleRenderer.RenderSnapshot value)
+    {
+        if (value.Root is null)
+        {
+            return;
+        }
+
+        lock (_sync)
+        {
+            _root = value.Root;
+        }
+    }
+
+    public void OnError(Exception error)
+    {
+    }
+
+    public void OnCompleted()
+    {
+    }
+}
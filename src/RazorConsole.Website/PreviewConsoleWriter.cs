@@ -0,0 +1,97 @@
+// Copyright (c) RazorConsole. All rights reserved.
+
+using System.Text;
+
+namespace RazorConsole.Website;
+
+/// <summary>
+/// Wraps <see cref="Console.Out"/> so lines written while a preview's code runs are also sent to that preview's
+/// diagnostics drawer. The preview is tracked per async flow, so timers and event handlers started by a preview
+/// are attributed to it as well.
+/// </summary>
+internal sealed class PreviewConsoleWriter(TextWriter inner) : TextWriter
+{
+    private static readonly AsyncLocal<string?> CurrentComponentId = new();
+    private static bool _installed;
+
+    private readonly Dictionary<string, StringBuilder> _pendingLines = new(StringComparer.Ordinal);
+
+    public override Encoding Encoding => inner.Encoding;
+
+    /// <summary>
+    /// Replaces the console output once; later calls do nothing.
+    /// </summary>
+    public static void Install()
+    {
+        if (_installed)
+        {
+            return;
+        }
+
+        _installed = true;
+        Console.SetOut(new PreviewConsoleWriter(Console.Out));
+    }
+
+    /// <summary>
+    /// Attributes console output to <paramref name="componentId"/> until the returned scope is disposed.
+    /// </summary>
+    public static IDisposable BeginScope(string componentId)
+    {
+        var previous = CurrentComponentId.Value;
+        CurrentComponentId.Value = componentId;
+        return new Scope(previous);
+    }
+
+    public override void Write(char value)
+    {
+        inner.Write(value);
+        Append(value.ToString());
+    }
+
+    public override void Write(string? value)
+    {
+        inner.Write(value);
+        Append(value);
+    }
+
+    public override void WriteLine(string? value)
+    {
+        inner.WriteLine(value);
+        Append(value + "\n");
+    }
+
+    public override void Flush() => inner.Flush();
+
+    private void Append(string? value)
+    {
+        var componentId = CurrentComponentId.Value;
+        if (componentId is null || string.IsNullOrEmpty(value))
+        {
+            return;
+        }
+
+        if (!_pendingLines.TryGetValue(componentId, out var line))
+        {
+            line = new StringBuilder();
+            _pendingLines[componentId] = line;
+        }
+
+        foreach (var c in value)
+        {
+            if (c == '\n')
+            {
+                XTermInterop.ReportStdout(componentId, line.ToString().TrimEnd('\r'));
+                line.Clear();
+            }
+            else
+            {
+                line.Append(c);
+            }
+        }
+    }
+
+    private sealed class Scope(string? previous) : IDisposable
+    {
+        public void Dispose() => CurrentComponentId.Value = previous;
+    }
+}
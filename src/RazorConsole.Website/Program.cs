@@ -14,91 +14,132 @@ public partial class Registry
     private static readonly Dictionary<string, IRazorConsoleRenderer> _renderers = new();
     private static readonly HashSet<string> _subscriptions = new();
 
+    static Registry()
+    {
+        // The exports are called without running Main, so the console is wrapped on first use.
+        PreviewConsoleWriter.Install();
+    }
+
     [JSExport]
     [SupportedOSPlatform("browser")]
     public static void RegisterComponent(string elementID, int cols, int rows)
     {
         Console.WriteLine(elementID);
-        switch (elementID)
+
+        // Re-registering an element replaces its renderer, so release the previous one first.
+        if (_renderers.Remove(elementID, out var previous))
+        {
+            _ = previous.DisposeAsync().AsTask();
+        }
+
+        // "Table_1@60" is another instance of the Table_1 example, e.g. one column of the responsive preview.
+        var exampleID = elementID.Split('@')[0];
+        switch (exampleID)
         {
-            case "Align":
+            case "Align_1":
                 _renderers[elementID] = new RazorConsoleRenderer<Align_1>(elementID, cols, rows);
                 break;
-            case "Border":
+            case "Border_1":
                 _renderers[elementID] = new RazorConsoleRenderer<Border_1>(elementID, cols, rows);
                 break;
-            case "Scrollable":
+            case "Scrollable_1":
                 _renderers[elementID] = new RazorConsoleRenderer<Scrollable_1>(elementID, cols, rows);
                 break;
-            case "ViewHeightScrollable":
+            case "ViewHeightScrollable_1":
                 _renderers[elementID] = new RazorConsoleRenderer<ViewHeightScrollable_1>(elementID, cols, rows);
                 break;
-            case "Columns":
+            case "Columns_1":
                 _renderers[elementID] = new RazorConsoleRenderer<Columns_1>(elementID, cols, rows);
                 break;
-            case "Rows":
+            case "Rows_1":
                 _renderers[elementID] = new RazorConsoleRenderer<Rows_1>(elementID, cols, rows);
                 break;
-            case "Grid":
+            case "Grid_1":
                 _renderers[elementID] = new RazorConsoleRenderer<Grid_1>(elementID, cols, rows);
                 break;
-            case "Padder":
+            case "Padder_1":
                 _renderers[elementID] = new RazorConsoleRenderer<Padder_1>(elementID, cols, rows);
                 break;
-            case "TextButton":
+            case "TextButton_1":
                 _renderers[elementID] = new RazorConsoleRenderer<TextButton_1>(elementID, cols, rows);
                 break;
-            case "TextInput":
+            case "TextInput_1":
                 _renderers[elementID] = new RazorConsoleRenderer<TextInput_1>(elementID, cols, rows);
                 break;
-            case "Select":
+            case "Select_1":
                 _renderers[elementID] = new RazorConsoleRenderer<Select_1>(elementID, cols, rows);
                 break;
-            case "Markup":
+            case "Select_2":
+                _renderers[elementID] = new RazorConsoleRenderer<Select_2>(elementID, cols, rows);
+                break;
+            case "Markup_1":
                 _renderers[elementID] = new RazorConsoleRenderer<Markup_1>(elementID, cols, rows);
                 break;
-            case "ModalWindow":
+            case "ModalWindow_1":
                 _renderers[elementID] = new RazorConsoleRenderer<ModalWindow_1>(elementID, cols, rows);
                 break;
-            case "Markdown":
+            case "Markdown_1":
                 _renderers[elementID] = new RazorConsoleRenderer<Markdown_1>(elementID, cols, rows);
                 break;
-            case "Panel":
+            case "Panel_1":
                 _renderers[elementID] = new RazorConsoleRenderer<Panel_1>(elementID, cols, rows);
                 break;
-            case "Figlet":
+            case "Figlet_1":
                 _renderers[elementID] = new RazorConsoleRenderer<Figlet_1>(elementID, cols, rows);
                 break;
-            case "SyntaxHighlighter":
+            case "SyntaxHighlighter_1":
                 _renderers[elementID] = new RazorConsoleRenderer<SyntaxHighlighter_1>(elementID, cols, rows);
                 break;
-            case "Table":
+            case "Table_1":
                 _renderers[elementID] = new RazorConsoleRenderer<Table_1>(elementID, cols, rows);
                 break;
-            case "Spinner":
+            case "Spinner_1":
                 _renderers[elementID] = new RazorConsoleRenderer<Spinner_1>(elementID, cols, rows);
                 break;
-            case "Newline":
+            case "Newline_1":
                 _renderers[elementID] = new RazorConsoleRenderer<Newline_1>(elementID, cols, rows);
                 break;
-            case "SpectreCanvas":
+            case "SpectreCanvas_1":
                 _renderers[elementID] = new RazorConsoleRenderer<SpectreCanvas_1>(elementID, cols, rows);
                 break;
-            case "BarChart":
+            case "BarChart_1":
                 _renderers[elementID] = new RazorConsoleRenderer<BarChart_1>(elementID, cols, rows);
                 break;
-            case "BreakdownChart":
+            case "BreakdownChart_1":
                 _renderers[elementID] = new RazorConsoleRenderer<BreakdownChart_1>(elementID, cols, rows);
                 break;
-            case "StepChart":
+            case "StepChart_1":
                 _renderers[elementID] = new RazorConsoleRenderer<StepChart_1>(elementID, cols, rows);
                 break;
-            case "FlexBox":
+            case "FlexBox_1":
                 _renderers[elementID] = new RazorConsoleRenderer<FlexBox_1>(elementID, cols, rows);
                 break;
         }
     }
 
+    [JSExport]
+    [SupportedOSPlatform("browser")]
+    public static async Task UnregisterComponent(string elementID)
+    {
+        if (!_renderers.Remove(elementID, out var renderer))
+        {
+            return;
+        }
+        await renderer.DisposeAsync()
+            .ConfigureAwait(false);
+    }
+
+    [JSExport]
+    [SupportedOSPlatform("browser")]
+    public static void SetComponentSuspended(string elementID, bool suspended)
+    {
+        if (!_renderers.TryGetValue(elementID, out var renderer))
+        {
+            return;
+        }
+        renderer.SetSuspended(suspended);
+    }
+
     [JSExport]
     [SupportedOSPlatform("browser")]
     public static async Task HandleKeyboardEvent(string elementID, string xtermKey, string domKey, bool ctrlKey, bool altKey, bool shiftKey)
@@ -111,6 +152,89 @@ public partial class Registry
             .ConfigureAwait(false);
     }
 
+    [JSExport]
+    [SupportedOSPlatform("browser")]
+    public static async Task HandleTextInput(string elementID, string text)
+    {
+        if (!_renderers.TryGetValue(elementID, out var renderer))
+        {
+            return;
+        }
+        await renderer.HandleTextInputAsync(text).ConfigureAwait(false);
+    }
+
+    [JSExport]
+    [SupportedOSPlatform("browser")]
+    public static async Task HandleMouseEvent(string elementID, string type, int column, int row, int wheelDelta, bool ctrlKey, bool altKey, bool shiftKey)
+    {
+        if (!_renderers.TryGetValue(elementID, out var renderer))
+        {
+            return;
+        }
+        await renderer.HandleMouseEventAsync(type, column, row, wheelDelta, ctrlKey, altKey, shiftKey)
+            .ConfigureAwait(false);
+    }
+
+    [JSExport]
+    [SupportedOSPlatform("browser")]
+    public static string GetComponentParameters(string elementID)
+    {
+        if (!_renderers.TryGetValue(elementID, out var renderer))
+        {
+            return "[]";
+        }
+        return renderer.DescribeParameters();
+    }
+
+    [JSExport]
+    [SupportedOSPlatform("browser")]
+    public static string GetVdomSnapshot(string elementID)
+    {
+        if (!_renderers.TryGetValue(elementID, out var renderer))
+        {
+            return VdomInspector.EmptyDescription;
+        }
+        return renderer.DescribeVdom();
+    }
+
+    [JSExport]
+    [SupportedOSPlatform("browser")]
+    public static void SetFocusOverlay(string elementID, bool enabled)
+    {
+        if (!_renderers.TryGetValue(elementID, out var renderer))
+        {
+            return;
+        }
+        renderer.SetFocusOverlay(enabled);
+    }
+
+    [JSExport]
+    [SupportedOSPlatform("browser")]
+    public static async Task SetComponentParameters(string elementID, string parametersJson)
+    {
+        if (!_renderers.TryGetValue(elementID, out var renderer))
+        {
+            return;
+        }
+        await renderer.SetParametersAsync(parametersJson)
+            .ConfigureAwait(false);
+    }
+
+    [JSExport]
+    [SupportedOSPlatform("browser")]
+    public static async Task WaitForRenderSettled(string elementID, int quietMilliseconds, int timeoutMilliseconds)
+    {
+        // Unlike the input handlers this fails loudly, a caller waiting for a frame of an unknown preview would capture nothing.
+        if (!_renderers.TryGetValue(elementID, out var renderer))
+        {
+            throw new InvalidOperationException($"Preview '{elementID}' is not registered.");
+        }
+        await renderer.WaitForRenderSettledAsync(
+                TimeSpan.FromMilliseconds(quietMilliseconds),
+                TimeSpan.FromMilliseconds(timeoutMilliseconds))
+            .ConfigureAwait(false);
+    }
+
     [JSExport]
     [SupportedOSPlatform("browser")]
     public static void HandleResize(string elementID, int cols, int rows)
@@ -128,4 +252,19 @@ public partial class XTermInterop
 {
     [JSImport("writeToTerminal", "main.js")]
     public static partial void WriteToTerminal(string componentName, string data);
+
+    [JSImport("reportComponentError", "main.js")]
+    public static partial void ReportComponentError(string componentName, string exceptionType, string message, string stackTrace);
+
+    [JSImport("reportStdout", "main.js")]
+    public static partial void ReportStdout(string componentName, string line);
+
+    [JSImport("reportKeyMapping", "main.js")]
+    public static partial void ReportKeyMapping(string componentName, string domKey, string consoleKey, string keyChar, string modifiers);
+
+    [JSImport("reportFrame", "main.js")]
+    public static partial void ReportFrame(string componentName, double durationMs, int length);
+
+    [JSImport("reportFocusRegions", "main.js")]
+    public static partial void ReportFocusRegions(string componentName, string regionsJson);
 }
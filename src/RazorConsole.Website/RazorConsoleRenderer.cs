@@ -5,6 +5,7 @@ using Microsoft.AspNetCore.Components;
 using Microsoft.Extensions.DependencyInjection;
 using Microsoft.Extensions.Options;
 using RazorConsole.Core;
+using RazorConsole.Core.Abstractions.Rendering;
 using RazorConsole.Core.Controllers;
 using RazorConsole.Core.Focus;
 using RazorConsole.Core.Input;
@@ -14,10 +15,18 @@ using Spectre.Console.Rendering;
 
 namespace RazorConsole.Website;
 
-internal interface IRazorConsoleRenderer
+internal interface IRazorConsoleRenderer : IAsyncDisposable
 {
     Task HandleKeyboardEventAsync(string xtermKey, string domKey, bool ctrlKey, bool altKey, bool shiftKey);
+    Task HandleTextInputAsync(string text);
+    Task HandleMouseEventAsync(string type, int column, int row, int wheelDelta, bool ctrlKey, bool altKey, bool shiftKey);
     void HandleResize(int cols, int rows);
+    string DescribeParameters();
+    string DescribeVdom();
+    void SetFocusOverlay(bool enabled);
+    Task SetParametersAsync(string parametersJson);
+    void SetSuspended(bool suspended);
+    Task WaitForRenderSettledAsync(TimeSpan quietPeriod, TimeSpan timeout);
     event Action<string>? SnapshotRendered;
 }
 
@@ -32,8 +41,25 @@ internal class RazorConsoleRenderer<[DynamicallyAccessedMembers(DynamicallyAcces
     private IAnsiConsole? _ansiConsole;
     private readonly StringWriter _sw = new StringWriter();
     private KeyboardEventManager? _keyboardEventManager;
-    private LiveDisplayCanvas? _canvas;
+    private MouseEventManager? _mouseEventManager;
+    private IDisposable? _mouseSubscription;
+    private SuspendableCanvas? _canvas;
+    private ConsoleLiveDisplayContext? _liveDisplayContext;
+    private FocusManager.FocusSession? _focusSession;
+    private IDisposable? _focusSubscription;
+    private IDisposable? _errorSubscription;
+    private VdomInspector? _vdomInspector;
+    private IDisposable? _vdomSubscription;
+    private FocusManager? _focusManager;
+    private FocusRegionReporter? _focusRegionReporter;
+    private IDisposable? _focusRegionSubscription;
+    private readonly CancellationTokenSource _lifetime = new();
+    private bool _suspended;
+    private bool _disposed;
+    private bool _crashed;
+    private bool _hasRenderedFrame;
     private Task? _initializationTask;
+    private readonly Dictionary<string, object?> _parameters = new(StringComparer.Ordinal);
     public event Action<string>? SnapshotRendered;
 
     public RazorConsoleRenderer(string componentId, int cols, int rows)
@@ -55,8 +81,24 @@ internal class RazorConsoleRenderer<[DynamicallyAccessedMembers(DynamicallyAcces
 
     /// <summary>
     /// Initializes the rendering pipeline so components can be materialized outside the console host.
+    /// A component that throws while mounting is reported to the browser like any later crash.
     /// </summary>
     private async Task InitializeAsync()
+    {
+        // Timers and handlers started while mounting inherit the scope, so their output is attributed to this preview.
+        using var consoleScope = PreviewConsoleWriter.BeginScope(_componentId);
+        try
+        {
+            await InitializeCoreAsync().ConfigureAwait(false);
+        }
+        catch (Exception ex) when (ex is not OperationCanceledException)
+        {
+            ReportError(ex);
+            throw;
+        }
+    }
+
+    private async Task InitializeCoreAsync()
     {
         if (_serviceProvider is not null)
         {
@@ -70,6 +112,7 @@ internal class RazorConsoleRenderer<[DynamicallyAccessedMembers(DynamicallyAcces
         _serviceProvider = services.BuildServiceProvider();
         _consoleRenderer = _serviceProvider.GetRequiredService<ConsoleRenderer>();
         _keyboardEventManager = _serviceProvider.GetRequiredService<KeyboardEventManager>();
+        _mouseEventManager = _serviceProvider.GetRequiredService<MouseEventManager>();
         var focusManager = _serviceProvider.GetRequiredService<FocusManager>();
         var options = _serviceProvider.GetRequiredService<IOptions<ConsoleAppOptions>>().Value;
 
@@ -84,29 +127,50 @@ internal class RazorConsoleRenderer<[DynamicallyAccessedMembers(DynamicallyAcces
 
         _ansiConsole.Profile.Width = _initialCols;
         _ansiConsole.Profile.Height = _initialRows;
+
+        // Subscribe before mounting so exceptions thrown by the first render are reported too.
+        _errorSubscription = _consoleRenderer.Subscribe(new ErrorObserver(ReportError));
+        _vdomInspector = new VdomInspector(_serviceProvider.GetServices<ITranslationMiddleware>());
+        _vdomSubscription = _consoleRenderer.Subscribe(_vdomInspector);
+        _focusManager = focusManager;
+        _focusRegionReporter = new FocusRegionReporter(
+            focusManager,
+            _serviceProvider.GetServices<ITranslationMiddleware>(),
+            regions => XTermInterop.ReportFocusRegions(_componentId, regions));
+        _focusRegionSubscription = _consoleRenderer.Subscribe(_focusRegionReporter);
+        focusManager.FocusChanged += OnFocusChanged;
         var snapshot = await _consoleRenderer.MountComponentAsync<TComponent>(ParameterView.Empty, default).ConfigureAwait(false);
-        _consoleRenderer.Subscribe(focusManager);
+        _focusSubscription = _consoleRenderer.Subscribe(focusManager);
+        _mouseSubscription = _consoleRenderer.Subscribe(_mouseEventManager);
 
         var initialView = ConsoleViewResult.FromSnapshot(snapshot);
         var terminalMonitor = _serviceProvider.GetRequiredService<TerminalMonitor>();
-        _canvas = new LiveDisplayCanvas(options.ConsoleLiveDisplayOptions, _ansiConsole);
+        var canvas = new SuspendableCanvas(new LiveDisplayCanvas(options.ConsoleLiveDisplayOptions, _ansiConsole));
+        _canvas = canvas;
+        if (_suspended)
+        {
+            _canvas.Suspend();
+        }
 
         // Subscribe to Refreshed BEFORE creating the context, so we catch the initial render.
         _canvas.Refreshed += () =>
         {
             var output = _sw.ToString();
+            _hasRenderedFrame = true;
             SnapshotRendered?.Invoke(output);
             XTermInterop.WriteToTerminal(_componentId, output);
+            XTermInterop.ReportFrame(_componentId, canvas.FrameDuration.TotalMilliseconds, output.Length);
             _sw.GetStringBuilder().Clear();
+            ReportFocusRegions(enable: null);
         };
 
         // Pass null for initialView to the context. This forces the context to treat the
         // canvas as empty/dirty and perform an initial render of the snapshot.
-        var consoleLiveDisplayContext = new ConsoleLiveDisplayContext(_canvas, _consoleRenderer, terminalMonitor);
+        _liveDisplayContext = new ConsoleLiveDisplayContext(_canvas, _consoleRenderer, terminalMonitor);
 
         // Pass the actual initialView to FocusManager so it knows about the initial focusable elements.
-        var focusSession = focusManager.BeginSession(consoleLiveDisplayContext, initialView, CancellationToken.None);
-        await focusSession.InitializationTask.ConfigureAwait(false);
+        _focusSession = focusManager.BeginSession(_liveDisplayContext, initialView, _lifetime.Token);
+        await _focusSession.InitializationTask.ConfigureAwait(false);
     }
 
     /// <summary>
@@ -142,8 +206,7 @@ internal class RazorConsoleRenderer<[DynamicallyAccessedMembers(DynamicallyAcces
         }
         catch (Exception ex)
         {
-            Console.WriteLine($"Error rendering component: {ex.Message} {ex.StackTrace}");
-
+            ReportError(ex);
             throw;
         }
 
@@ -155,6 +218,7 @@ internal class RazorConsoleRenderer<[DynamicallyAccessedMembers(DynamicallyAcces
     /// </summary>
     public async Task HandleKeyboardEventAsync(string xtermKey, string domKey, bool ctrlKey, bool altKey, bool shiftKey)
     {
+        using var consoleScope = PreviewConsoleWriter.BeginScope(_componentId);
         await EnsureInitializedAsync().ConfigureAwait(false);
 
         if (_keyboardEventManager is null)
@@ -163,10 +227,73 @@ internal class RazorConsoleRenderer<[DynamicallyAccessedMembers(DynamicallyAcces
         }
 
         var keyInfo = ParseKeyFromBrowser(xtermKey, domKey, ctrlKey, altKey, shiftKey);
-        Console.WriteLine($"Parsed ConsoleKeyInfo: KeyChar='{keyInfo.KeyChar}', Key={keyInfo.Key}, Modifiers={keyInfo.Modifiers}");
+        XTermInterop.ReportKeyMapping(_componentId, domKey, keyInfo.Key.ToString(), keyInfo.KeyChar.ToString(), keyInfo.Modifiers.ToString());
         await _keyboardEventManager.HandleKeyAsync(keyInfo, CancellationToken.None).ConfigureAwait(false);
     }
 
+    /// <summary>
+    /// Processes text that arrives in one piece from the browser, such as a paste or an IME composition,
+    /// as a bracketed paste.
+    /// </summary>
+    public async Task HandleTextInputAsync(string text)
+    {
+        using var consoleScope = PreviewConsoleWriter.BeginScope(_componentId);
+        await EnsureInitializedAsync().ConfigureAwait(false);
+
+        if (_keyboardEventManager is null)
+        {
+            return;
+        }
+
+        await _keyboardEventManager.HandlePasteAsync(text, _lifetime.Token).ConfigureAwait(false);
+    }
+
+    /// <summary>
+    /// Processes a mouse event from the browser. Coordinates are zero-based cells relative to the first rendered line.
+    /// </summary>
+    public async Task HandleMouseEventAsync(string type, int column, int row, int wheelDelta, bool ctrlKey, bool altKey, bool shiftKey)
+    {
+        using var consoleScope = PreviewConsoleWriter.BeginScope(_componentId);
+        await EnsureInitializedAsync().ConfigureAwait(false);
+
+        if (_mouseEventManager is null || _ansiConsole is null)
+        {
+            return;
+        }
+
+        ConsoleMouseEventKind? kind = type switch
+        {
+            "click" => ConsoleMouseEventKind.Click,
+            "wheel" => ConsoleMouseEventKind.Wheel,
+            "move" => ConsoleMouseEventKind.Move,
+            _ => null
+        };
+
+        if (kind is null)
+        {
+            return;
+        }
+
+        var modifiers = ConsoleModifiers.None;
+        if (ctrlKey)
+        {
+            modifiers |= ConsoleModifiers.Control;
+        }
+        if (altKey)
+        {
+            modifiers |= ConsoleModifiers.Alt;
+        }
+        if (shiftKey)
+        {
+            modifiers |= ConsoleModifiers.Shift;
+        }
+
+        var profile = _ansiConsole.Profile;
+        var options = new RenderOptions(profile.Capabilities, new Size(profile.Width, profile.Height));
+        var mouseEvent = new ConsoleMouseEvent(kind.Value, column, row, wheelDelta, modifiers);
+        await _mouseEventManager.HandleMouseAsync(mouseEvent, options, profile.Width, _lifetime.Token).ConfigureAwait(false);
+    }
+
     private static ConsoleKeyInfo ParseKeyFromBrowser(string xtermKey, string domKey, bool ctrlKey, bool altKey, bool shiftKey)
     {
         var modifiers = ConsoleModifiers.None;
@@ -307,6 +434,75 @@ internal class RazorConsoleRenderer<[DynamicallyAccessedMembers(DynamicallyAcces
         };
     }
 
+    /// <summary>
+    /// Describes the parameters of the preview component that can be edited from the website playground.
+    /// </summary>
+    public string DescribeParameters() => ComponentParameters.Describe(typeof(TComponent));
+
+    /// <summary>
+    /// Describes the recent virtual DOM frames of the preview and the cells of the current elements for the
+    /// website's VDOM inspector.
+    /// </summary>
+    public string DescribeVdom()
+    {
+        if (_vdomInspector is null || _ansiConsole is null)
+        {
+            return VdomInspector.EmptyDescription;
+        }
+
+        var profile = _ansiConsole.Profile;
+        var options = new RenderOptions(profile.Capabilities, new Size(profile.Width, profile.Height));
+        return _vdomInspector.Describe(options, profile.Width);
+    }
+
+    /// <summary>
+    /// Starts or stops reporting the focusable regions of the preview after every frame and focus change,
+    /// which the website draws as its focus overlay.
+    /// </summary>
+    public void SetFocusOverlay(bool enabled) => ReportFocusRegions(enabled);
+
+    private void OnFocusChanged(object? sender, FocusChangedEventArgs e) => ReportFocusRegions(enable: null);
+
+    private void ReportFocusRegions(bool? enable)
+    {
+        if (_focusRegionReporter is null || _ansiConsole is null || _disposed)
+        {
+            return;
+        }
+
+        var profile = _ansiConsole.Profile;
+        var options = new RenderOptions(profile.Capabilities, new Size(profile.Width, profile.Height));
+        if (enable is { } enabled)
+        {
+            _focusRegionReporter.SetEnabled(enabled, options, profile.Width);
+        }
+        else
+        {
+            _focusRegionReporter.Report(options, profile.Width);
+        }
+    }
+
+    /// <summary>
+    /// Applies parameter values sent from the browser to the mounted component and re-renders it.
+    /// </summary>
+    public async Task SetParametersAsync(string parametersJson)
+    {
+        using var consoleScope = PreviewConsoleWriter.BeginScope(_componentId);
+        await EnsureInitializedAsync().ConfigureAwait(false);
+
+        if (_consoleRenderer is null)
+        {
+            return;
+        }
+
+        foreach (var (name, value) in ComponentParameters.Parse(typeof(TComponent), parametersJson))
+        {
+            _parameters[name] = value;
+        }
+
+        await _consoleRenderer.SetRootParametersAsync(ParameterView.FromDictionary(_parameters)).ConfigureAwait(false);
+    }
+
     /// <summary>
     /// Handles terminal resize events from the browser by updating console dimensions and triggering a re-render.
     /// </summary>
@@ -317,6 +513,8 @@ internal class RazorConsoleRenderer<[DynamicallyAccessedMembers(DynamicallyAcces
             return;
         }
 
+        using var consoleScope = PreviewConsoleWriter.BeginScope(_componentId);
+
         // Update the console profile dimensions
         _ansiConsole.Profile.Width = cols;
         _ansiConsole.Profile.Height = rows;
@@ -324,4 +522,169 @@ internal class RazorConsoleRenderer<[DynamicallyAccessedMembers(DynamicallyAcces
         // Trigger a refresh to re-render with the new dimensions
         _canvas.Refresh();
     }
+
+    /// <summary>
+    /// Pauses or resumes writing frames to the terminal, e.g. while the preview is scrolled out of view.
+    /// Updates made while suspended are coalesced into a single frame on resume.
+    /// </summary>
+    public void SetSuspended(bool suspended)
+    {
+        _suspended = suspended;
+
+        if (_canvas is null)
+        {
+            return;
+        }
+
+        if (suspended)
+        {
+            _canvas.Suspend();
+        }
+        else
+        {
+            _canvas.Resume();
+        }
+    }
+
+    /// <summary>
+    /// Completes once the preview has mounted, including the asynchronous lifecycle methods of its components,
+    /// has written a frame, and then has written no frame for <paramref name="quietPeriod"/>. An animation
+    /// settles between two of its frames, so the quiet period has to be shorter than its interval.
+    /// </summary>
+    /// <exception cref="TimeoutException">The preview kept rendering, or never rendered, until <paramref name="timeout"/>.</exception>
+    /// <exception cref="InvalidOperationException">The preview crashed.</exception>
+    public async Task WaitForRenderSettledAsync(TimeSpan quietPeriod, TimeSpan timeout)
+    {
+        using var timeoutSource = CancellationTokenSource.CreateLinkedTokenSource(_lifetime.Token);
+        timeoutSource.CancelAfter(timeout);
+
+        try
+        {
+            await EnsureInitializedAsync().WaitAsync(timeoutSource.Token).ConfigureAwait(false);
+
+            while (true)
+            {
+                var frameRendered = new TaskCompletionSource(TaskCreationOptions.RunContinuationsAsynchronously);
+                void OnSnapshotRendered(string _) => frameRendered.TrySetResult();
+
+                SnapshotRendered += OnSnapshotRendered;
+                try
+                {
+                    // Without a frame there is nothing to capture yet, so only the next frame ends the wait.
+                    var quiet = Task.Delay(_hasRenderedFrame ? quietPeriod : Timeout.InfiniteTimeSpan, timeoutSource.Token);
+                    var completed = await Task.WhenAny(frameRendered.Task, quiet).ConfigureAwait(false);
+                    await completed.ConfigureAwait(false);
+                    if (completed == quiet)
+                    {
+                        break;
+                    }
+                }
+                finally
+                {
+                    SnapshotRendered -= OnSnapshotRendered;
+                }
+            }
+        }
+        catch (OperationCanceledException) when (!_lifetime.IsCancellationRequested)
+        {
+            throw new TimeoutException(_hasRenderedFrame
+                ? $"Preview '{_componentId}' kept rendering for {timeout.TotalMilliseconds} ms without a quiet period of {quietPeriod.TotalMilliseconds} ms."
+                : $"Preview '{_componentId}' did not render a frame within {timeout.TotalMilliseconds} ms.");
+        }
+
+        if (_crashed)
+        {
+            throw new InvalidOperationException($"Preview '{_componentId}' crashed while rendering.");
+        }
+    }
+
+    /// <summary>
+    /// Sends the first unhandled exception of the preview to the browser, which shows it in place of the frozen output.
+    /// Later exceptions are usually follow-up failures of the same crash and are only written to the console.
+    /// </summary>
+    private void ReportError(Exception exception)
+    {
+        var error = exception is AggregateException { InnerExceptions.Count: 1 } aggregate
+            ? aggregate.InnerExceptions[0]
+            : exception;
+
+        Console.WriteLine($"Preview '{_componentId}' threw {error}");
+
+        if (_disposed || _crashed)
+        {
+            return;
+        }
+
+        _crashed = true;
+        XTermInterop.ReportComponentError(
+            _componentId,
+            error.GetType().FullName ?? error.GetType().Name,
+            error.Message,
+            error.StackTrace ?? string.Empty);
+    }
+
+    /// <summary>
+    /// Tears down the focus session, live display and Blazor renderer so the preview no longer holds any resources.
+    /// </summary>
+    public async ValueTask DisposeAsync()
+    {
+        if (_disposed)
+        {
+            return;
+        }
+
+        _disposed = true;
+        _canvas?.Suspend();
+        _lifetime.Cancel();
+
+        if (_initializationTask is not null)
+        {
+            try
+            {
+                await _initializationTask.ConfigureAwait(false);
+            }
+            catch (Exception ex)
+            {
+                // The renderer is going away, a failed initialization has nothing left to clean up.
+                Console.WriteLine($"Preview '{_componentId}' failed to initialize before disposal: {ex.Message}");
+            }
+        }
+
+        _focusSession?.Dispose();
+        _focusSubscription?.Dispose();
+        _mouseSubscription?.Dispose();
+        _errorSubscription?.Dispose();
+        _vdomSubscription?.Dispose();
+        _focusRegionSubscription?.Dispose();
+        if (_focusManager is not null)
+        {
+            _focusManager.FocusChanged -= OnFocusChanged;
+        }
+        _liveDisplayContext?.Dispose();
+
+        if (_serviceProvider is IAsyncDisposable asyncDisposable)
+        {
+            await asyncDisposable.DisposeAsync().ConfigureAwait(false);
+        }
+        else if (_serviceProvider is IDisposable disposable)
+        {
+            disposable.Dispose();
+        }
+
+        _lifetime.Dispose();
+        _sw.Dispose();
+    }
+
+    private sealed class ErrorObserver(Action<Exception> onError) : IObserver<ConsoleRenderer.RenderSnapshot>
+    {
+        public void OnCompleted()
+        {
+        }
+
+        public void OnError(Exception error) => onError(error);
+
+        public void OnNext(ConsoleRenderer.RenderSnapshot value)
+        {
+        }
+    }
 }
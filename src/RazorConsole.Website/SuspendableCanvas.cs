@@ -0,0 +1,128 @@
+// Copyright (c) RazorConsole. All rights reserved.
+
+using System.Diagnostics;
+using RazorConsole.Core.Rendering;
+using Spectre.Console.Rendering;
+
+namespace RazorConsole.Website;
+
+/// <summary>
+/// Wraps the live display canvas of a preview so rendering can be paused while the preview is not visible.
+/// Updates received while suspended are coalesced and applied once when the canvas is resumed.
+/// </summary>
+internal sealed class SuspendableCanvas(ConsoleLiveDisplayContext.ILiveDisplayCanvas inner) : ConsoleLiveDisplayContext.ILiveDisplayCanvas
+{
+    private readonly Lock _sync = new();
+    private bool _suspended;
+    private bool _hasPendingTarget;
+    private IRenderable? _pendingTarget;
+    private bool _hasPendingRefresh;
+    private long _frameStartedAt = Stopwatch.GetTimestamp();
+
+    public event Action? Refreshed
+    {
+        add => inner.Refreshed += value;
+        remove => inner.Refreshed -= value;
+    }
+
+    /// <summary>
+    /// Time spent on the frame that is being written so far; read from a <see cref="Refreshed"/> handler
+    /// it is the time the frame took to lay out and render.
+    /// </summary>
+    public TimeSpan FrameDuration => Stopwatch.GetElapsedTime(Volatile.Read(ref _frameStartedAt));
+
+    public bool IsSuspended
+    {
+        get
+        {
+            lock (_sync)
+            {
+                return _suspended;
+            }
+        }
+    }
+
+    public void Suspend()
+    {
+        lock (_sync)
+        {
+            _suspended = true;
+        }
+    }
+
+    public void Resume()
+    {
+        bool hasPendingTarget;
+        bool hasPendingRefresh;
+        IRenderable? pendingTarget;
+
+        lock (_sync)
+        {
+            if (!_suspended)
+            {
+                return;
+            }
+
+            _suspended = false;
+            hasPendingTarget = _hasPendingTarget;
+            hasPendingRefresh = _hasPendingRefresh;
+            pendingTarget = _pendingTarget;
+            _hasPendingTarget = false;
+            _hasPendingRefresh = false;
+            _pendingTarget = null;
+        }
+
+        StartFrame();
+        if (hasPendingTarget)
+        {
+            inner.UpdateTarget(pendingTarget);
+        }
+        else if (hasPendingRefresh)
+        {
+            inner.Refresh();
+        }
+    }
+
+    public void UpdateTarget(IRenderable? renderable)
+    {
+        lock (_sync)
+        {
+            if (_suspended)
+            {
+                _pendingTarget = renderable;
+                _hasPendingTarget = true;
+                return;
+            }
+        }
+
+        StartFrame();
+        inner.UpdateTarget(renderable);
+    }
+
+    public void Refresh()
+    {
+        lock (_sync)
+        {
+            if (_suspended)
+            {
+                _hasPendingRefresh = true;
+                return;
+            }
+        }
+
+        StartFrame();
+        inner.Refresh();
+    }
+
+    private void StartFrame() => Volatile.Write(ref _frameStartedAt, Stopwatch.GetTimestamp());
+
+    // Returning false while suspended makes the live display context fall back to UpdateTarget, which is deferred.
+    public bool TryReplaceNode(IReadOnlyList<int> path, IRenderable renderable)
+        => !IsSuspended && inner.TryReplaceNode(path, renderable);
+
+    public bool TryUpdateText(IReadOnlyList<int> path, string? text)
+        => !IsSuspended && inner.TryUpdateText(path, text);
+
+    public bool TryUpdateAttributes(IReadOnlyList<int> path, IReadOnlyDictionary<string, string?> attributes)
+        => !IsSuspended && inner.TryUpdateAttributes(path, attributes);
+}
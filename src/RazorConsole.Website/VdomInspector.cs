@@ -0,0 +1,186 @@
+// Copyright (c) RazorConsole. All rights reserved.
+
+using System.Text;
+using System.Text.Json;
+using RazorConsole.Core.Abstractions.Rendering;
+using RazorConsole.Core.Rendering;
+using RazorConsole.Core.Vdom;
+using Spectre.Console.Rendering;
+
+namespace RazorConsole.Website;
+
+/// <summary>
+/// Keeps the virtual DOM of the most recent frames of a preview so the website can show them in its VDOM inspector,
+/// together with the cells every element of the current frame occupies.
+/// </summary>
+/// <remarks>
+/// Nodes are identified by their path from the root ("0", "0.1", "0.1.0", …) because the renderer creates new
+/// nodes for every frame, so paths are the only identity that survives re-renders.
+/// </remarks>
+internal sealed class VdomInspector(IEnumerable<ITranslationMiddleware> middlewares) : IObserver<ConsoleRenderer.RenderSnapshot>
+{
+    private const int MaxFrames = 20;
+
+    /// <summary>
+    /// The description of a preview that has not rendered yet.
+    /// </summary>
+    public const string EmptyDescription = "{\"frames\":[],\"regions\":{}}";
+
+    private readonly IReadOnlyList<ITranslationMiddleware> _middlewares = middlewares.ToList();
+    private readonly Lock _sync = new();
+    private readonly Queue<Frame> _frames = new();
+    private int _frameCount;
+
+    private sealed record Frame(int Number, DateTimeOffset Timestamp, VNode Root);
+
+    /// <summary>
+    /// Returns a JSON object with the recorded frames, oldest first, and the cell spans of the elements of the
+    /// latest frame keyed by node path.
+    /// </summary>
+    public string Describe(RenderOptions options, int width)
+    {
+        Frame[] frames;
+        lock (_sync)
+        {
+            frames = [.. _frames];
+        }
+
+        using var stream = new MemoryStream();
+        using (var writer = new Utf8JsonWriter(stream))
+        {
+            writer.WriteStartObject();
+
+            writer.WriteStartArray("frames");
+            foreach (var frame in frames)
+            {
+                writer.WriteStartObject();
+                writer.WriteNumber("number", frame.Number);
+                writer.WriteString("timestamp", frame.Timestamp);
+                writer.WritePropertyName("root");
+                WriteNode(writer, frame.Root, "0");
+                writer.WriteEndObject();
+            }
+            writer.WriteEndArray();
+
+            writer.WriteStartObject("regions");
+            if (frames.Length > 0)
+            {
+                WriteRegions(writer, frames[^1].Root, options, width);
+            }
+            writer.WriteEndObject();
+
+            writer.WriteEndObject();
+        }
+
+        return Encoding.UTF8.GetString(stream.ToArray());
+    }
+
+    private void WriteRegions(Utf8JsonWriter writer, VNode root, RenderOptions options, int width)
+    {
+        var paths = new Dictionary<VNode, string>(ReferenceEqualityComparer.Instance);
+        CollectPaths(root, "0", paths);
+
+        var map = ElementRegionMap.ForSnapshot(root, _middlewares, options, width);
+        foreach (var region in map.Regions)
+        {
+            if (!paths.TryGetValue(region.Node, out var path))
+            {
+                continue;
+            }
+
+            writer.WriteStartArray(path);
+            foreach (var span in region.Spans)
+            {
+                writer.WriteStartArray();
+                writer.WriteNumberValue(span.Row);
+                writer.WriteNumberValue(span.Column);
+                writer.WriteNumberValue(span.Width);
+                writer.WriteEndArray();
+            }
+            writer.WriteEndArray();
+        }
+    }
+
+    private static void CollectPaths(VNode node, string path, Dictionary<VNode, string> paths)
+    {
+        paths[node] = path;
+        for (var i = 0; i < node.Children.Count; i++)
+        {
+            CollectPaths(node.Children[i], $"{path}.{i}", paths);
+        }
+    }
+
+    private static void WriteNode(Utf8JsonWriter writer, VNode node, string path)
+    {
+        writer.WriteStartObject();
+        writer.WriteString("path", path);
+        writer.WriteString("kind", node.Kind.ToString().ToLowerInvariant());
+
+        if (node.TagName is not null)
+        {
+            writer.WriteString("tagName", node.TagName);
+        }
+        if (node.Key is not null)
+        {
+            writer.WriteString("key", node.Key);
+        }
+        if (node.Kind == VNodeKind.Text)
+        {
+            writer.WriteString("text", node.Text);
+        }
+
+        writer.WriteStartObject("attributes");
+        foreach (var (name, value) in node.Attributes)
+        {
+            writer.WriteString(name, value);
+        }
+        writer.WriteEndObject();
+
+        writer.WriteStartArray("events");
+        foreach (var @event in node.Events)
+        {
+            writer.WriteStringValue(@event.Name);
+        }
+        writer.WriteEndArray();
+
+        writer.WriteStartArray("children");
+        for (var i = 0; i < node.Children.Count; i++)
+        {
+            WriteNode(writer, node.Children[i], $"{path}.{i}");
+        }
+        writer.WriteEndArray();
+
+        writer.WriteEndObject();
+    }
+
+    public void OnNext(ConsoleRenderer.RenderSnapshot value)
+    {
+        if (value.Root is null)
+        {
+            return;
+        }
+
+        lock (_sync)
+        {
+            // Subscribing replays the last snapshot, which may already be recorded.
+            if (_frames.Count > 0 && ReferenceEquals(_frames.Last().Root, value.Root))
+            {
+                return;
+            }
+
+            _frames.Enqueue(new Frame(++_frameCount, DateTimeOffset.UtcNow, value.Root));
+            if (_frames.Count > MaxFrames)
+            {
+                _frames.Dequeue();
+            }
+        }
+    }
+
+    public void OnError(Exception error)
+    {
+    }
+
+    public void OnCompleted()
+    {
+    }
+}
@@ -4,6 +4,8 @@
 export interface WasmExports {
 	Registry: {
 		RegisterComponent: (elementId: string, cols: number, rows: number) => Promise<void>;
+		UnregisterComponent: (elementId: string) => Promise<void>;
+		SetComponentSuspended: (elementId: string, suspended: boolean) => void;
 		HandleKeyboardEvent: (
 			componentName: string,
 			xtermKey: string,
@@ -12,16 +14,69 @@ export interface WasmExports {
 			altKey: boolean,
 			shiftKey: boolean
 		) => Promise<void>;
+		HandleTextInput: (componentName: string, text: string) => Promise<void>;
+		HandleMouseEvent: (
+			componentName: string,
+			type: "click" | "wheel" | "move",
+			column: number,
+			row: number,
+			wheelDelta: number,
+			ctrlKey: boolean,
+			altKey: boolean,
+			shiftKey: boolean
+		) => Promise<void>;
 		HandleResize: (
 			componentName: string,
 			cols: number,
 			rows: number
 		) => void;
+		GetComponentParameters: (componentName: string) => string;
+		SetComponentParameters: (componentName: string, parametersJson: string) => Promise<void>;
+		/** JSON with the recent VDOM frames of a preview and the cells of its current elements */
+		GetVdomSnapshot: (componentName: string) => string;
+		/** Starts or stops reporting the focusable regions of a preview through `reportFocusRegions` */
+		SetFocusOverlay: (componentName: string, enabled: boolean) => void;
+		/**
+		 * Resolves once a preview has mounted, rendered a frame and then rendered nothing for `quietMilliseconds`.
+		 * Rejects when it crashed, is not registered or did not settle within `timeoutMilliseconds`.
+		 */
+		WaitForRenderSettled: (
+			componentName: string,
+			quietMilliseconds: number,
+			timeoutMilliseconds: number
+		) => Promise<void>;
 	};
 }
 
+/**
+ * Download progress of a single runtime asset
+ */
+export interface RuntimeAssetProgress {
+	name: string;
+	loadedBytes: number;
+	/** null when the server did not send a content-length */
+	totalBytes: number | null;
+}
+
+/**
+ * Progress of creating the runtime, reported while `createRuntimeAndGetExports` runs
+ */
+export interface RuntimeLoadProgress {
+	/** 'download' while `_framework` assets are fetched, 'start' while the runtime starts, then 'ready' */
+	stage: "download" | "start" | "ready";
+	/** The asset that reported progress last */
+	asset: RuntimeAssetProgress | null;
+	loadedBytes: number;
+	totalBytes: number;
+	loadedAssets: number;
+	totalAssets: number;
+}
+
 /**
  * Creates the .NET runtime and returns the assembly exports.
  * This is the only exported function from main.js.
+ * @param onProgress Receives download progress and the current stage
  */
-export declare function createRuntimeAndGetExports(): Promise<WasmExports>;
+export declare function createRuntimeAndGetExports(
+	onProgress?: (progress: RuntimeLoadProgress) => void
+): Promise<WasmExports>;
@@ -3,44 +3,173 @@ console.log('main.js loaded');
 import { dotnet } from './_framework/dotnet.js'
 
 let dotnetInstancePromise = null;
+let reportProgress = () => { };
+
+// Progress events of the same stage are coalesced to at most one per interval
+const PROGRESS_INTERVAL_MS = 100;
+
+const progress = {
+    stage: 'download',
+    asset: null,
+    loadedBytes: 0,
+    totalBytes: 0,
+    loadedAssets: 0,
+    totalAssets: 0,
+};
+const assetBytes = new Map();
+let lastReportedAt = 0;
+
+function emitProgress(force) {
+    const now = Date.now();
+    if (!force && now - lastReportedAt < PROGRESS_INTERVAL_MS) {
+        return;
+    }
+    lastReportedAt = now;
+    reportProgress({ ...progress, asset: progress.asset && { ...progress.asset } });
+}
+
+function updateAssetProgress(name, loadedBytes, totalBytes, done) {
+    assetBytes.set(name, { loadedBytes, totalBytes });
+    progress.loadedBytes = 0;
+    progress.totalBytes = 0;
+    for (const asset of assetBytes.values()) {
+        // content-length is the transferred size, which can be smaller than the decoded body
+        progress.loadedBytes += asset.totalBytes ? Math.min(asset.loadedBytes, asset.totalBytes) : asset.loadedBytes;
+        progress.totalBytes += asset.totalBytes ?? asset.loadedBytes;
+    }
+    progress.asset = { name, loadedBytes, totalBytes };
+    emitProgress(done);
+}
+
+/**
+ * Fetches a runtime asset and reports the bytes received while the runtime reads the body.
+ */
+async function fetchWithProgress(name, uri, integrity) {
+    const response = await fetch(uri, integrity ? { integrity } : undefined);
+    if (!response.ok || !response.body) {
+        return response;
+    }
+
+    const totalBytes = Number(response.headers.get('content-length')) || null;
+    const reader = response.body.getReader();
+    let loadedBytes = 0;
+    updateAssetProgress(name, loadedBytes, totalBytes, false);
+
+    const body = new ReadableStream({
+        async pull(controller) {
+            const { done, value } = await reader.read();
+            if (done) {
+                updateAssetProgress(name, loadedBytes, totalBytes ?? loadedBytes, true);
+                controller.close();
+                return;
+            }
+            loadedBytes += value.byteLength;
+            updateAssetProgress(name, loadedBytes, totalBytes, false);
+            controller.enqueue(value);
+        },
+        cancel(reason) {
+            return reader.cancel(reason);
+        }
+    });
+
+    return new Response(body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers
+    });
+}
 
 async function getDotnetInstance() {
     if (!dotnetInstancePromise) {
-        dotnetInstancePromise = dotnet.create();
+        dotnetInstancePromise = dotnet
+            .withModuleConfig({
+                onDownloadResourceProgress: (loadedAssets, totalAssets) => {
+                    progress.loadedAssets = loadedAssets;
+                    progress.totalAssets = totalAssets;
+                    if (totalAssets > 0 && loadedAssets >= totalAssets) {
+                        progress.stage = 'start';
+                        progress.asset = null;
+                    }
+                    emitProgress(progress.stage === 'start');
+                }
+            })
+            .withResourceLoader((type, name, defaultUri, integrity) => {
+                // JavaScript modules are imported by the runtime itself and must be loaded by URL
+                if (type === 'dotnetjs' || type.startsWith('js-module')) {
+                    return undefined;
+                }
+                return fetchWithProgress(name, defaultUri, integrity);
+            })
+            .create()
+            .then((instance) => {
+                instance.setModuleImports('main.js', moduleImports);
+                return instance;
+            })
+            .catch((error) => {
+                // allow a later call to try again, e.g. after a network error
+                dotnetInstancePromise = null;
+                throw error;
+            });
     }
     return dotnetInstancePromise;
 }
 
-const { setModuleImports } = await getDotnetInstance();
-
 /**
  * Creates the .NET runtime and returns the assembly exports.
  * This is the only exported function from main.js.
  * All other APIs are in xtermConsole.ts.
+ * @param {(progress: object) => void} [onProgress] Receives download progress (per asset and in total)
+ * and the current stage: 'download', 'start' (runtime start) and 'ready'.
  */
-export async function createRuntimeAndGetExports() {
+export async function createRuntimeAndGetExports(onProgress) {
+    if (onProgress) {
+        reportProgress = onProgress;
+        emitProgress(true);
+    }
+
     const { getAssemblyExports, getConfig } = await getDotnetInstance();
     const config = getConfig();
-    return await getAssemblyExports(config.mainAssemblyName);
+    const exports = await getAssemblyExports(config.mainAssemblyName);
+
+    progress.stage = 'ready';
+    progress.asset = null;
+    emitProgress(true);
+    return exports;
 }
 
 /**
- * Gets the terminal API from the global window object.
- * The terminal API is set up by xtermConsole.ts in the website bundle.
- * @returns {object} The terminal API with init, write, clear, dispose, and attachKeyListener methods
+ * Gets the terminal API from the global scope.
+ * On the main thread it is set up by xtermConsole.ts; when the runtime runs in a Web Worker,
+ * the worker installs an API that posts the output to the main thread.
+ * @returns {object | undefined} The terminal API with init, write, clear, dispose, attachKeyListener, reportError, reportDiagnostic and reportFocusRegions methods
  */
+function findTerminalApi() {
+    return globalThis.window?.razorConsoleTerminal ?? globalThis.razorConsoleTerminal;
+}
+
 function getTerminalApi() {
-    if (typeof window === 'undefined' || !window.razorConsoleTerminal) {
-        throw new Error('Terminal API is not available. Make sure xtermConsole.ts is loaded first.');
+    const api = findTerminalApi();
+    if (!api) {
+        throw new Error('Terminal API is not available. Make sure xtermConsole.ts or the runtime worker is loaded first.');
     }
-    return window.razorConsoleTerminal;
+    return api;
 }
 
-setModuleImports('main.js', {
+const moduleImports = {
     writeToTerminal: (componentName, data) => getTerminalApi().write(componentName, data),
     initTerminal: (componentName, options) => getTerminalApi().init(componentName, options),
     clearTerminal: (componentName) => getTerminalApi().clear(componentName),
     disposeTerminal: (componentName) => getTerminalApi().dispose(componentName),
     attachKeyListener: (componentName, helper) => getTerminalApi().attachKeyListener(componentName, helper),
-    isTerminalAvailable: () => typeof window !== 'undefined' && !!window.razorConsoleTerminal
-});
+    reportComponentError: (componentName, exceptionType, message, stackTrace) =>
+        getTerminalApi().reportError(componentName, { exceptionType, message, stackTrace }),
+    reportStdout: (componentName, line) =>
+        getTerminalApi().reportDiagnostic(componentName, { kind: 'stdout', line }),
+    reportKeyMapping: (componentName, domKey, consoleKey, keyChar, modifiers) =>
+        getTerminalApi().reportDiagnostic(componentName, { kind: 'key', domKey, consoleKey, keyChar, modifiers }),
+    reportFrame: (componentName, durationMs, length) =>
+        getTerminalApi().reportDiagnostic(componentName, { kind: 'render', durationMs, length }),
+    reportFocusRegions: (componentName, regionsJson) =>
+        getTerminalApi().reportFocusRegions(componentName, JSON.parse(regionsJson)),
+    isTerminalAvailable: () => !!findTerminalApi()
+};
@@ -0,0 +1,127 @@
+import zlib from 'node:zlib';
+
+export interface ApngFrame {
+    // RGBA, four bytes per pixel, rows top to bottom
+    pixels: Buffer;
+    // how long the frame is shown before the next one
+    delayMs: number;
+}
+
+interface Region {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+    let crc = 0xffffffff;
+    for (const byte of data) {
+        crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(body));
+    return Buffer.concat([length, body, crc]);
+}
+
+// Deflated scanlines of a region, each prefixed with filter type 0 (none)
+function compressRegion(pixels: Buffer, width: number, region: Region): Buffer {
+    const stride = region.width * 4;
+    const raw = Buffer.alloc((stride + 1) * region.height);
+    for (let y = 0; y < region.height; y++) {
+        const start = ((region.y + y) * width + region.x) * 4;
+        pixels.copy(raw, y * (stride + 1) + 1, start, start + stride);
+    }
+    return zlib.deflateSync(raw, { level: 9 });
+}
+
+// Smallest rectangle holding every pixel that differs between two frames
+function changedRegion(previous: Buffer, next: Buffer, width: number, height: number): Region {
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            if (previous.readUInt32BE(i) === next.readUInt32BE(i)) continue;
+            minX = Math.min(minX, x);
+            maxX = Math.max(maxX, x);
+            minY = Math.min(minY, y);
+            maxY = Math.max(maxY, y);
+        }
+    }
+    // a frame without changes still needs a region to carry its delay
+    if (maxX < 0) return { x: 0, y: 0, width: 1, height: 1 };
+    return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+function frameControl(sequence: number, region: Region, delayMs: number): Buffer {
+    const data = Buffer.alloc(26);
+    data.writeUInt32BE(sequence, 0);
+    data.writeUInt32BE(region.width, 4);
+    data.writeUInt32BE(region.height, 8);
+    data.writeUInt32BE(region.x, 12);
+    data.writeUInt32BE(region.y, 16);
+    // the delay is a fraction, milliseconds over 1000
+    data.writeUInt16BE(Math.min(Math.round(delayMs), 0xffff), 20);
+    data.writeUInt16BE(1000, 22);
+    data.writeUInt8(0, 24); // dispose: keep the frame as the canvas of the next one
+    data.writeUInt8(0, 25); // blend: replace the region, including its alpha
+    return chunk('fcTL', data);
+}
+
+/**
+ * Encodes frames of equal size as an animated PNG that loops forever. The first frame doubles as the still
+ * image of viewers without APNG support; every later frame only stores the region that changed since the
+ * frame before it, so a spinner on an otherwise still card costs a few hundred bytes per frame.
+ */
+export function encodeApng(width: number, height: number, frames: ApngFrame[]): Buffer {
+    if (frames.length === 0) throw new Error('An animated PNG needs at least one frame.');
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header.writeUInt8(8, 8); // bit depth
+    header.writeUInt8(6, 9); // color type: RGBA
+    // compression, filter and interlace methods stay 0
+
+    const animationControl = Buffer.alloc(8);
+    animationControl.writeUInt32BE(frames.length, 0);
+    animationControl.writeUInt32BE(0, 4); // plays forever
+
+    const chunks = [chunk('IHDR', header), chunk('acTL', animationControl)];
+    let sequence = 0;
+    frames.forEach((frame, index) => {
+        const region = index === 0
+            ? { x: 0, y: 0, width, height }
+            : changedRegion(frames[index - 1].pixels, frame.pixels, width, height);
+        chunks.push(frameControl(sequence++, region, frame.delayMs));
+
+        const data = compressRegion(frame.pixels, width, region);
+        if (index === 0) {
+            chunks.push(chunk('IDAT', data));
+        } else {
+            const sequenceNumber = Buffer.alloc(4);
+            sequenceNumber.writeUInt32BE(sequence++);
+            chunks.push(chunk('fdAT', Buffer.concat([sequenceNumber, data])));
+        }
+    });
+    chunks.push(chunk('IEND', Buffer.alloc(0)));
+
+    return Buffer.concat([PNG_SIGNATURE, ...chunks]);
+}
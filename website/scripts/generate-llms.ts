@@ -1,6 +1,7 @@
 import { createServer, resolveConfig } from 'vite';
 import type { ComponentInfo } from '../src/types/components/componentInfo.ts';
 import type { TopicItem } from '../src/types/docs/topicItem.ts';
+import { getExampleHash } from '../src/lib/examples.ts';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import pc from 'picocolors';
@@ -95,7 +96,8 @@ async function generate() {
                     const examplePath = path.resolve(config.root, '../src/RazorConsole.Website/Components', exampleFilename);
                     if (fs.existsSync(examplePath)) {
                         const exampleCode = fs.readFileSync(examplePath, 'utf8');
-                        compMd += `### Usage Example (${exampleFilename}):\n\n\`\`\`\`razor\n${exampleCode}\n\`\`\`\`\n\n`;
+                        const previewUrl = `${FULL_BASE_URL}/components/${comp.name.toLowerCase()}#${getExampleHash(exampleFilename)}`;
+                        compMd += `### Usage Example (${exampleFilename}):\n\nLive preview: ${previewUrl}\n\n\`\`\`\`razor\n${exampleCode}\n\`\`\`\`\n\n`;
                     }
                 }
             }
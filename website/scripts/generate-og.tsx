@@ -1,333 +1,533 @@
-import { createServer, resolveConfig } from 'vite';
-import { JSDOM } from 'jsdom';
-import { registerFont, createCanvas } from 'canvas';
+import { registerFont } from 'canvas';
+import crypto from 'node:crypto';
 import fs from 'node:fs';
+import os from 'node:os';
 import path from 'node:path';
+import { fileURLToPath } from 'node:url';
 import satori from 'satori';
-import { Resvg } from '@resvg/resvg-js';
+import { renderAsync, type RenderedImage } from '@resvg/resvg-js';
 import pc from 'picocolors';
-import xtermPkg from '@xterm/headless';
 import { prepareWithSegments, layoutWithLines } from '@chenglou/pretext';
-const { Terminal } = xtermPkg;
 
+import type { ReactNode } from 'react';
 import type { ComponentInfo } from '../src/types/components/componentInfo.ts';
+import type { DocfxApiItem } from '../src/data/api-docs.ts';
+import { docTopicIds, releaseNoteIds } from '../src/data/docs-ids.ts';
+import { extractHeadings, stripInlineMarkdown } from '../src/lib/doc-utils.ts';
+import { OG_IMAGE_HEIGHT, OG_IMAGE_WIDTH, getApiOgImagePath, getDocsOgImagePath } from '../src/lib/ogImages.ts';
+import {
+    getFrameworkDir,
+    selectComponents,
+    startHeadlessRuntime,
+    type HeadlessRuntime,
+} from './headless-runtime.ts';
+import { encodeApng, type ApngFrame } from './apng.ts';
+import { getExampleHash, getExampleId } from '../src/lib/examples.ts';
+import {
+    DEFAULT_DARK_PALETTE,
+    TERMINAL_PALETTES,
+    getTerminalPalette,
+    isTerminalPaletteSelection,
+} from '../src/lib/terminalTheme.ts';
+import { captureSnapshot, renderTerminalToJSX, type TerminalSnapshot } from '../src/lib/terminalSnapshot.tsx';
+
+const paletteArg = process.argv.find(a => a.startsWith('--palette='))?.split('=')[1] ?? DEFAULT_DARK_PALETTE;
+if (!isTerminalPaletteSelection(paletteArg) || paletteArg === 'auto') {
+    console.log(pc.red(`[OG] Unknown palette "${paletteArg}". Available: ${Object.keys(TERMINAL_PALETTES).join(', ')}`));
+    process.exit(1);
+}
+// OG cards use the same palette registry as the live previews
+const palette = getTerminalPalette(paletteArg);
+
+// Bump when the card layout changes in a way the hashed inputs do not capture
+const CACHE_VERSION = 1;
+const TERM_COLS = 80;
+const TERM_ROWS = 24;
+// Animations are sampled more often than they change, and recorded until they loop or run out of time
+const ANIMATION_SAMPLE_MS = 20;
+const ANIMATION_MAX_MS = 3000;
+const ANIMATION_MAX_FRAMES = 60;
+
+type ImageStatus = 'unchanged' | 'cached' | 'rendered';
+
+interface ManifestEntry {
+    // path inside og/
+    file: string;
+    // set for snapshots of component examples
+    component?: string;
+    example?: string;
+    // set for title cards, the route they belong to
+    page?: string;
+    // hash of everything the image is rendered from
+    hash: string;
+    status: ImageStatus;
+}
 
-const ANSI_HEX: Record<number, string> = {
-    0: "#000000", 1: "#cd3131", 2: "#0dbc79", 3: "#e5e510",
-    4: "#2472c8", 5: "#bc3fbc", 6: "#11a8cd", 7: "#e5e5e5",
-    8: "#666666", 9: "#cd3131", 10: "#14ce96", 11: "#f5f543",
-    12: "#3b8eea", 13: "#d670d6", 14: "#29b8db", 15: "#a8a8a8",
-};
-
-function get256Color(index: number): string {
-    if (index < 16) return ANSI_HEX[index] || '#cccccc';
-    if (index < 232) {
-        const i = index - 16;
-        const r = Math.floor(i / 36) * 51;
-        const g = Math.floor((i % 36) / 6) * 51;
-        const b = (i % 6) * 51;
-        return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
-    }
-    const grayscale = (index - 232) * 10 + 8;
-    const hex = grayscale.toString(16).padStart(2, '0');
-    return `#${hex}${hex}${hex}`;
+interface Manifest {
+    palette: string;
+    images: ManifestEntry[];
 }
 
-function resolveColor(colorValue: number, isForeground: boolean): string {
-    if (colorValue === -1 || colorValue >= 0x01000000 && (colorValue & 0xFFFFFF) === 0) {
-        return isForeground ? "#cccccc" : "transparent";
-    }
+interface OgJobBase {
+    file: string;
+    hash: string;
+}
 
-    const value = colorValue & 0xFFFFFF;
-    if (value > 255) {
-        const r = (value >> 16) & 0xFF;
-        const g = (value >> 8) & 0xFF;
-        const b = value & 0xFF;
-        return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
-    }
+interface ExampleJob extends OgJobBase {
+    kind: 'example';
+    component: ComponentInfo;
+    exampleFilename: string;
+    // an animated PNG of the example instead of a still frame
+    animated: boolean;
+}
 
-    return get256Color(value);
+interface TitleJob extends OgJobBase {
+    kind: 'title';
+    page: string;
+    card: TitleCard;
 }
 
-async function generateOgImages() {
-    const args = process.argv.slice(2);
-    const componentNameArg = args.find(a => a.startsWith('--componentName='))?.split('=')[1];
+type OgJob = ExampleJob | TitleJob;
 
-    const config = await resolveConfig({}, 'build');
-    const DIST_DIR = path.resolve(config.root, config.build.outDir || 'dist');
-    const OG_DIR = path.join(DIST_DIR, 'og');
-    const ASSETS_DIR = path.resolve(config.root, 'src/assets/fonts');
+// Text of a card for a page without a terminal preview
+interface TitleCard {
+    // the part of the site, shown above the title
+    label: string;
+    title: string;
+    subtitle?: string;
+    // a line of code under the title, e.g. the declaration of an API type
+    code?: string;
+}
 
-    const FONT_PATH = path.join(ASSETS_DIR, 'CascadiaCode.ttf');
-    const FONT_PATH_BOLD = path.join(ASSETS_DIR, 'CascadiaCode-Bold.ttf');
-    const FONT_PATH_ITALIC = path.join(ASSETS_DIR, 'CascadiaCode-Italic.ttf');
+interface AnimationFrame {
+    snapshot: TerminalSnapshot;
+    // when the frame first showed up, relative to the settled example
+    startMs: number;
+    delayMs: number;
+}
 
-    registerFont(FONT_PATH, { family: 'Cascadia Code', weight: 'normal', style: 'normal' });
-    registerFont(FONT_PATH_BOLD, { family: 'Cascadia Code', weight: 'bold', style: 'normal' });
-    registerFont(FONT_PATH_ITALIC, { family: 'Cascadia Code', weight: 'normal', style: 'italic' });
+interface CardFonts {
+    regular: Buffer;
+    bold: Buffer;
+    italic: Buffer;
+}
 
-    if (!fs.existsSync(OG_DIR)) fs.mkdirSync(OG_DIR, { recursive: true });
-    
-    const fontData = fs.readFileSync(FONT_PATH);
-    const fontBoldData = fs.readFileSync(FONT_PATH_BOLD);
-    const fontItalicData = fs.readFileSync(FONT_PATH_ITALIC);
+function hashFiles(hash: crypto.Hash, files: string[]) {
+    for (const file of files) {
+        hash.update(`${path.basename(file)}\0`);
+        hash.update(fs.existsSync(file) ? fs.readFileSync(file) : 'missing');
+    }
+    return hash;
+}
 
-    const termCols = 80;
-    const termRows = 24;
+// Shortens text to `max` characters, ending it with an ellipsis when something was cut
+function truncate(text: string, max: number): string {
+    return text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+}
 
-    const dom = new JSDOM('<!DOCTYPE html><html><body></body></html>', {
-        url: "http://localhost",
-        pretendToBeVisual: true 
-    });
-    
-    global.window = dom.window as any;
-    if (typeof global.OffscreenCanvas === 'undefined') {
-        // @ts-ignore
-        global.OffscreenCanvas = class {
-            constructor(width: number, height: number) {
-                return createCanvas(width, height);
-            }
-        };
+// First line of the C# declaration, without the attributes above it
+function getSignature(item: DocfxApiItem): string | undefined {
+    const declaration = item.syntax?.contentCs ?? item.syntax?.content;
+    const lines = declaration?.split('\n').map(line => line.trim()).filter(line => line && !line.startsWith('['));
+    return lines && lines.length > 0 ? truncate(lines.join(' ').replace(/\s+/g, ' '), 110) : undefined;
+}
+
+function readManifest(file: string): Manifest | null {
+    try {
+        return JSON.parse(fs.readFileSync(file, 'utf8')) as Manifest;
+    } catch {
+        return null;
     }
+}
 
-    const nativeFetch = global.fetch;
-    global.fetch = async (input: any, init?: any) => {
-        const url = typeof input === 'string' ? input : input.url;
-        if (!url.startsWith('http') && (url.includes('.wasm') || url.includes('.dat'))) {
-            const fileName = url.split('/').pop()?.split('?')[0];
-            const artifactPath = path.resolve(config.root, '../artifacts/publish/RazorConsole.Website/release/wwwroot/_framework', fileName!);
-            if (fs.existsSync(artifactPath)) {
-                return new Response(fs.readFileSync(artifactPath), {
-                    status: 200,
-                    headers: { 'Content-Type': url.endsWith('.wasm') ? 'application/wasm' : 'application/octet-stream' }
-                });
-            }
+// Runs `run` over the items with at most `limit` of them in flight
+async function runWithConcurrency<T>(items: T[], limit: number, run: (item: T) => Promise<void>) {
+    let next = 0;
+    const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+        while (next < items.length) {
+            await run(items[next++]);
         }
-        return nativeFetch(input, init);
-    };
-
-    const vite = await createServer({
-        server: { middlewareMode: true },
-        logLevel: 'error',
-        ssr: { external: ['razor-console'] },
-        appType: 'custom'
     });
+    await Promise.all(workers);
+}
 
-    try {
-        const { createRuntimeAndGetExports } = await vite.ssrLoadModule('razor-console');
-        const wasmExports = await createRuntimeAndGetExports();
-        let { components } = await vite.ssrLoadModule('./src/data/components.ts') as { components: ComponentInfo[] };
+async function generateOgImages() {
+    const args = process.argv.slice(2);
+    const componentNameArg = args.find(a => a.startsWith('--componentName='))?.split('=')[1];
+    const force = args.includes('--force');
+    const animated = args.includes('--animated');
+    const concurrencyArg = Number(args.find(a => a.startsWith('--concurrency='))?.split('=')[1]);
+    const concurrency = concurrencyArg > 0 ? concurrencyArg : Math.max(2, os.availableParallelism());
 
+    let runtime: HeadlessRuntime | null = null;
+    let exitCode = 0;
+    try {
+        runtime = await startHeadlessRuntime();
+        const { config } = runtime;
+        let components: ComponentInfo[];
+        try {
+            components = selectComponents(runtime.components, componentNameArg);
+        } catch (e) {
+            console.log(pc.red(`[OG] ${e instanceof Error ? e.message : e}`));
+            await runtime.close();
+            process.exit(1);
+        }
         if (componentNameArg) {
-            components = components.filter(c => c.name.toLowerCase() === componentNameArg.toLowerCase());
-            
-            if (components.length === 0) {
-                console.log(pc.red(`[OG] Component "${componentNameArg}" not found in metadata.`));
-                process.exit(1);
-            }
             console.log(pc.yellow(`[OG] Filtering active: only processing "${components[0].name}"`));
         }
 
-        const capturedAnsi: Record<string, string> = {};
-        (global.window as any).razorConsoleTerminal = {
-            write: (id: string, text: string) => { capturedAnsi[id] = (capturedAnsi[id] || '') + text; },
-            init: async () => { }, clear: () => { }, dispose: () => { }, attachKeyListener: () => { }
+        const DIST_DIR = path.resolve(config.root, config.build.outDir || 'dist');
+        const OG_DIR = path.join(DIST_DIR, 'og');
+        const MANIFEST_PATH = path.join(OG_DIR, 'manifest.json');
+        // outside node_modules, which `npm ci` deletes; the website job restores it with actions/cache
+        const CACHE_DIR = path.resolve(config.root, '.cache/og');
+        const EXAMPLES_DIR = path.resolve(config.root, '../src/RazorConsole.Website/Components');
+        const ASSETS_DIR = path.resolve(config.root, 'src/assets/fonts');
+
+        const FONT_PATH = path.join(ASSETS_DIR, 'CascadiaCode.ttf');
+        const FONT_PATH_BOLD = path.join(ASSETS_DIR, 'CascadiaCode-Bold.ttf');
+        const FONT_PATH_ITALIC = path.join(ASSETS_DIR, 'CascadiaCode-Italic.ttf');
+
+        registerFont(FONT_PATH, { family: 'Cascadia Code', weight: 'normal', style: 'normal' });
+        registerFont(FONT_PATH_BOLD, { family: 'Cascadia Code', weight: 'bold', style: 'normal' });
+        registerFont(FONT_PATH_ITALIC, { family: 'Cascadia Code', weight: 'normal', style: 'italic' });
+
+        fs.mkdirSync(OG_DIR, { recursive: true });
+        fs.mkdirSync(CACHE_DIR, { recursive: true });
+
+        const fonts: CardFonts = {
+            regular: fs.readFileSync(FONT_PATH),
+            bold: fs.readFileSync(FONT_PATH_BOLD),
+            italic: fs.readFileSync(FONT_PATH_ITALIC),
+        };
+
+        // Inputs shared by every image: the palette, the fonts, the WASM build and the code drawing the card
+        const frameworkDir = getFrameworkDir(config);
+        const frameworkFiles = fs.existsSync(frameworkDir)
+            ? fs.readdirSync(frameworkDir, { recursive: true, encoding: 'utf8' })
+                .map(file => path.join(frameworkDir, file))
+                .filter(file => fs.statSync(file).isFile())
+                .sort()
+            : [];
+        const sharedHash = hashFiles(
+            crypto.createHash('sha256').update(`${CACHE_VERSION}\0${palette.id}\0${JSON.stringify(palette.colors)}\0`),
+            [
+                FONT_PATH, FONT_PATH_BOLD, FONT_PATH_ITALIC,
+                ...frameworkFiles,
+                fileURLToPath(import.meta.url),
+                path.resolve(config.root, 'src/lib/terminalSnapshot.tsx'),
+                path.resolve(config.root, 'scripts/headless-runtime.ts'),
+                path.resolve(config.root, 'scripts/apng.ts'),
+            ]
+        ).digest('hex');
+
+        const createJob = (component: ComponentInfo, exampleFilename: string, file: string, isAnimated: boolean): OgJob => {
+            const hash = hashFiles(
+                crypto.createHash('sha256').update(`${sharedHash}\0${exampleFilename}\0${isAnimated}\0`),
+                [path.join(EXAMPLES_DIR, exampleFilename)]
+            ).digest('hex').slice(0, 16);
+            return { kind: 'example', component, exampleFilename, file, hash, animated: isAnimated };
         };
+        const createTitleJob = (page: string, imagePath: string, card: TitleCard): OgJob => {
+            const hash = crypto.createHash('sha256').update(`${sharedHash}\0${JSON.stringify(card)}\0`).digest('hex');
+            return { kind: 'title', page, card, file: imagePath.replace(/^\/og\//, ''), hash: hash.slice(0, 16) };
+        };
+
+        const jobs: OgJob[] = components.flatMap(component => [
+            ...component.examples.map((exampleFilename, exampleIndex) => {
+                // The first example backs the component page's og:image, the others are keyed by example
+                const ogFileName = exampleIndex === 0 ? component.name.toLowerCase() : getExampleHash(exampleFilename);
+                return createJob(component, exampleFilename, `${ogFileName}.png`, false);
+            }),
+            // og:image stays the still PNG, which every crawler understands; the animation is a thumbnail
+            ...(animated && component.animated && component.examples.length > 0
+                ? [createJob(component, component.examples[0], `${component.name.toLowerCase()}-animated.png`, true)]
+                : []),
+        ]);
+
+        // Title cards for the docs and the API reference, skipped when only one component is asked for
+        if (!componentNameArg) {
+            const topics = [
+                ...docTopicIds.map(topic => ({ ...topic, label: 'RazorConsole Docs' })),
+                ...releaseNoteIds.map(topic => ({ ...topic, label: 'RazorConsole Release Notes' })),
+            ];
+            for (const topic of topics) {
+                const markdownPath = path.resolve(config.root, '..', topic.filePath);
+                if (!fs.existsSync(markdownPath)) {
+                    throw new Error(`Markdown file of docs topic "${topic.id}" not found at ${markdownPath}`);
+                }
+                // the first heading that does not just repeat the title
+                const subtitle = extractHeadings(fs.readFileSync(markdownPath, 'utf8'))
+                    .map(heading => stripInlineMarkdown(heading.title))
+                    .find(heading => heading.toLowerCase() !== topic.title.toLowerCase());
+                jobs.push(createTitleJob(`/docs/${topic.id}`, getDocsOgImagePath(topic.id), {
+                    label: topic.label,
+                    title: topic.title,
+                    subtitle,
+                }));
+            }
 
-        for (const comp of components) {
-            console.log(pc.cyan(`[OG] Processing: ${comp.name}`));
+            // DocFX items are globbed by Vite, so they only load through it
+            const { apiItems } = await runtime.loadModule<{ apiItems: Record<string, DocfxApiItem> }>('./src/data/api-docs.ts');
+            for (const item of Object.values(apiItems)) {
+                jobs.push(createTitleJob(`/api/${encodeURIComponent(item.uid)}`, getApiOgImagePath(item.uid), {
+                    label: `API Reference // ${item.type ?? 'Type'}`,
+                    title: item.name,
+                    subtitle: item.namespace,
+                    code: getSignature(item),
+                }));
+            }
+        }
 
-            const term = new Terminal({
-                cols: termCols,
-                rows: termRows,
-                allowProposedApi: true,
-                convertEol: true
+        const previous = force ? null : readManifest(MANIFEST_PATH);
+        const previousImages = previous?.palette === palette.id ? previous.images : [];
+        const previousHashes = new Map(previousImages.map(image => [image.file, image.hash]));
+        // a filtered run keeps the entries of the other components
+        const images = new Map(componentNameArg ? previousImages.map(image => [image.file, image]) : []);
+        const record = (job: OgJob, status: ImageStatus) => {
+            images.set(job.file, {
+                file: job.file,
+                ...(job.kind === 'example'
+                    ? { component: job.component.name, example: job.exampleFilename }
+                    : { page: job.page }),
+                hash: job.hash,
+                status,
             });
+        };
 
-            capturedAnsi[comp.name] = '';
-            await wasmExports.Registry.RegisterComponent(comp.name, termCols, termRows);
-            if (wasmExports.Registry.HandleResize) {
-                await wasmExports.Registry.HandleResize(comp.name, termCols, termRows);
+        const pending: OgJob[] = [];
+        for (const job of jobs) {
+            const target = path.join(OG_DIR, job.file);
+            const cached = path.join(CACHE_DIR, `${job.hash}.png`);
+            if (!force && previousHashes.get(job.file) === job.hash && fs.existsSync(target)) {
+                record(job, 'unchanged');
+            } else if (!force && fs.existsSync(cached)) {
+                fs.mkdirSync(path.dirname(target), { recursive: true });
+                fs.copyFileSync(cached, target);
+                record(job, 'cached');
+            } else {
+                pending.push(job);
             }
+        }
+        console.log(pc.cyan(`[OG] ${jobs.length - pending.length} of ${jobs.length} images up to date, ` +
+            `rendering ${pending.length} with up to ${concurrency} in parallel.`));
+
+        const save = (job: OgJob, png: Buffer) => {
+            const target = path.join(OG_DIR, job.file);
+            fs.writeFileSync(path.join(CACHE_DIR, `${job.hash}.png`), png);
+            fs.mkdirSync(path.dirname(target), { recursive: true });
+            fs.writeFileSync(target, png);
+            record(job, 'rendered');
+        };
 
-            await new Promise(resolve => setTimeout(resolve, 600));
+        const activeRuntime = runtime;
+        const stills = pending.filter(job => job.kind === 'title' || !job.animated);
+        await runWithConcurrency(stills, concurrency, async (job) => {
+            if (job.kind === 'title') {
+                const image = await renderTitleCard(job.card, job.page, fonts);
+                save(job, image.asPng());
+                console.log(pc.green(`[OG] Saved title card of ${job.page} at ${path.join(OG_DIR, job.file)}`));
+                return;
+            }
 
-            const ansiData = capturedAnsi[comp.name] || '';
-            console.log(pc.dim(`      Captured ${ansiData.length} ANSI bytes`));
+            const exampleId = getExampleId(job.exampleFilename);
+            console.log(pc.cyan(`[OG] Processing: ${job.component.name} (${job.exampleFilename})`));
 
-            await new Promise<void>((resolve) => {
-                term.write(ansiData, () => setTimeout(resolve, 50));
-            });
+            const { terminal, ansi } = await activeRuntime.renderExample(exampleId, TERM_COLS, TERM_ROWS);
+            console.log(pc.dim(`      Captured ${ansi.length} ANSI bytes of ${exampleId}`));
 
-            const svg = await satori(
-                <div style={{
-                    height: '100%', width: '100%', display: 'flex', flexDirection: 'column',
-                    alignItems: 'center', justifyContent: 'center', backgroundColor: '#0f172a',
-                    padding: '40px',
-                    backgroundImage: 'linear-gradient(to bottom right, #020618, #170E37)',
-                }}>
-                    <div style={{
-                        display: 'flex', flexDirection: 'column', width: '1000px', height: '540px',
-                        backgroundColor: '#1e1e1e', borderRadius: '16px', overflow: 'hidden',
-                        boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.5)'
-                    }}>
-                        <div style={{ display: 'flex', height: '44px', backgroundColor: '#2d2d2d', alignItems: 'center', padding: '0 18px' }}>
-                            <div style={{ display: 'flex', gap: '6px' }}>
-                                <div style={{ width: '12px', height: '12px', borderRadius: '6px', backgroundColor: '#ff5f56' }} />
-                                <div style={{ width: '12px', height: '12px', borderRadius: '6px', backgroundColor: '#ffbd2e' }} />
-                                <div style={{ width: '12px', height: '12px', borderRadius: '6px', backgroundColor: '#27c93f' }} />
-                            </div>
-                            <div style={{ display: 'flex', flex: 1, color: '#94a3b8', fontSize: '14px', justifyContent: 'center', marginRight: '60px', fontFamily: 'Cascadia Code' }}>
-                                RazorConsole // {comp.name}.razor
-                            </div>
-                        </div>
-
-                        <div style={{
-                            padding: '30px', display: 'flex', flexDirection: 'column',
-                            fontSize: '20px', fontFamily: 'Cascadia Code',
-                            backgroundColor: '#1e1e1e', height: '100%',
-                            gap: 0
-                        }}>
-                            {renderTerminalToJSX(term)}
-                        </div>
-                    </div>
-                </div>,
-                {
-                    width: 1200,
-                    height: 630,
-                    fonts: [
-                        { name: 'Cascadia Code', data: fontData, weight: 400, style: 'normal' },
-                        { name: 'Cascadia Code', data: fontBoldData, weight: 700, style: 'normal' },
-                        { name: 'Cascadia Code', data: fontItalicData, weight: 400, style: 'italic' },
-                    ]
-                }
-            );
+            const snapshot = captureSnapshot(terminal, palette.colors);
+            terminal.dispose();
+            logSnapshot(snapshot);
+
+            const image = await renderCard(snapshot, job.exampleFilename, fonts);
+            save(job, image.asPng());
+            console.log(pc.green(`[OG] Saved snapshot of ${exampleId} at ${path.join(OG_DIR, job.file)}`));
+        });
+
+        // one at a time and after the stills, so rendering other cards does not delay the samples
+        for (const job of pending) {
+            if (job.kind === 'title' || !job.animated) continue;
 
-            const resvg = new Resvg(svg, { background: '#0f172a' });
-            const componentOgPath = path.join(OG_DIR, `${comp.name.toLowerCase()}.png`);
-            console.log(pc.cyan(`[OG] Saving snapshot of ${comp.name}...`));
-            fs.writeFileSync(componentOgPath, resvg.render().asPng());
-            console.log(pc.green(`[OG] Saved snapshot of ${comp.name} at ${componentOgPath}`));
+            const exampleId = getExampleId(job.exampleFilename);
+            console.log(pc.cyan(`[OG] Recording: ${job.component.name} (${job.exampleFilename})`));
+
+            const frames = await recordAnimation(activeRuntime, exampleId);
+            const totalMs = frames.reduce((sum, frame) => sum + frame.delayMs, 0);
+            console.log(pc.dim(`      Recorded ${frames.length} frames of ${exampleId} over ${totalMs}ms`));
+
+            let width = 0;
+            let height = 0;
+            const apngFrames: ApngFrame[] = [];
+            for (const frame of frames) {
+                const image = await renderCard(frame.snapshot, job.exampleFilename, fonts);
+                width = image.width;
+                height = image.height;
+                apngFrames.push({ pixels: image.pixels, delayMs: frame.delayMs });
+            }
+            save(job, encodeApng(width, height, apngFrames));
+            console.log(pc.green(`[OG] Saved animation of ${exampleId} at ${path.join(OG_DIR, job.file)}`));
         }
 
-        console.log(pc.green(`[OG] All snapshots saved to ${OG_DIR}.`));
+        const manifest: Manifest = {
+            palette: palette.id,
+            images: [...images.values()].sort((a, b) => a.file.localeCompare(b.file)),
+        };
+        fs.writeFileSync(MANIFEST_PATH, JSON.stringify(manifest, null, 2) + '\n');
+
+        console.log(pc.green(`[OG] All snapshots saved to ${OG_DIR}, manifest at ${MANIFEST_PATH}.`));
 
     } catch (e) {
-        console.error(pc.red(`[OG] Error: ${e}`));
+        // e.g. an example that crashed or did not settle; a missing or stale image must not go unnoticed
+        console.error(pc.red(`[OG] Error: ${e instanceof Error ? e.message : e}`));
+        exitCode = 1;
     } finally {
-        await vite.close();
-        process.exit(0); // Save exit after all snapshots are rendered
+        await runtime?.close();
+        process.exit(exitCode); // Save exit after all snapshots are rendered
     }
 }
 
-const FONT_SPEC_BASE = '20px "Cascadia Code"';
+// Samples an example until its animation shows its first frame again, keeping every distinct screen
+async function recordAnimation(runtime: HeadlessRuntime, exampleId: string): Promise<AnimationFrame[]> {
+    const frames: AnimationFrame[] = [];
+    const keys: string[] = [];
+    const options = { durationMs: ANIMATION_MAX_MS, intervalMs: ANIMATION_SAMPLE_MS };
+
+    await runtime.recordExample(exampleId, TERM_COLS, TERM_ROWS, options, (terminal, elapsedMs) => {
+        const snapshot = captureSnapshot(terminal, palette.colors);
+        const key = JSON.stringify(snapshot.lines);
+        if (key === keys[keys.length - 1]) return;
+
+        const previous = frames[frames.length - 1];
+        if (previous) previous.delayMs = elapsedMs - previous.startMs;
+        // back at the start, so the recording loops without a jump
+        if (frames.length > 1 && key === keys[0]) return false;
+
+        frames.push({ snapshot, startMs: elapsedMs, delayMs: 0 });
+        keys.push(key);
+        return frames.length < ANIMATION_MAX_FRAMES;
+    });
 
-function renderTerminalToJSX(term: any) {
-    const rows = [];
-    const buffer = term.buffer.active;
+    // a recording that never looped shows its last frame as long as the one before
+    const last = frames[frames.length - 1];
+    if (last && last.delayMs === 0) {
+        last.delayMs = frames[frames.length - 2]?.delayMs ?? ANIMATION_SAMPLE_MS;
+    }
+    return frames;
+}
 
-    console.log(pc.gray("--- TERMINAL SNAPSHOT START ---"));
+// The gradient backdrop and the terminal window every card is drawn in
+function cardFrame(caption: string, body: ReactNode) {
+    return (
+        <div style={{
+            height: '100%', width: '100%', display: 'flex', flexDirection: 'column',
+            alignItems: 'center', justifyContent: 'center', backgroundColor: '#0f172a',
+            padding: '40px',
+            backgroundImage: 'linear-gradient(to bottom right, #020618, #170E37)',
+        }}>
+            <div style={{
+                display: 'flex', flexDirection: 'column', width: '1000px', height: '540px',
+                backgroundColor: palette.colors.background, borderRadius: '16px', overflow: 'hidden',
+                boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.5)'
+            }}>
+                <div style={{ display: 'flex', height: '44px', backgroundColor: '#2d2d2d', alignItems: 'center', padding: '0 18px' }}>
+                    <div style={{ display: 'flex', gap: '6px' }}>
+                        <div style={{ width: '12px', height: '12px', borderRadius: '6px', backgroundColor: '#ff5f56' }} />
+                        <div style={{ width: '12px', height: '12px', borderRadius: '6px', backgroundColor: '#ffbd2e' }} />
+                        <div style={{ width: '12px', height: '12px', borderRadius: '6px', backgroundColor: '#27c93f' }} />
+                    </div>
+                    <div style={{ display: 'flex', flex: 1, color: '#94a3b8', fontSize: '14px', justifyContent: 'center', marginRight: '60px', fontFamily: 'Cascadia Code' }}>
+                        RazorConsole // {caption}
+                    </div>
+                </div>
 
-    for (let y = 0; y < term.rows; y++) {
-        const line = buffer.getLine(y);
-        if (!line) continue;
+                {body}
+            </div>
+        </div>
+    );
+}
 
-        const rawLineText = line.translateToString(false);
-        if (rawLineText.trim().length > 0) {
-            console.log(pc.green(`[Row ${y}]: `) + rawLineText);
-        }
+async function rasterize(element: ReactNode, fonts: CardFonts): Promise<RenderedImage> {
+    const svg = await satori(element, {
+        width: OG_IMAGE_WIDTH,
+        height: OG_IMAGE_HEIGHT,
+        fonts: [
+            { name: 'Cascadia Code', data: fonts.regular, weight: 400, style: 'normal' },
+            { name: 'Cascadia Code', data: fonts.bold, weight: 700, style: 'normal' },
+            { name: 'Cascadia Code', data: fonts.italic, weight: 400, style: 'italic' },
+        ]
+    });
 
-        const rowSpans = [];
-        let currentSegment = '';
-        let lastFg = -1;
-        let lastBg = -1;
-        let lastBold = false;
-        let lastItalic = false;
-
-        for (let x = 0; x < term.cols; x++) {
-            const cell = line.getCell(x);
-            if (!cell) continue;
-
-            const fg = cell.getFgColor();
-            const bg = cell.getBgColor();
-            const bold = !!cell.isBold();
-            const italic = !!cell.isItalic();
-            const char = cell.getChars() || ' ';
-
-            if (fg === lastFg && bg === lastBg && bold === lastBold && italic === lastItalic) {
-                currentSegment += char;
-            } else {
-                if (currentSegment) {
-                    rowSpans.push(createSpan(currentSegment, lastFg, lastBg, lastBold, lastItalic, y, x));
-                }
-                currentSegment = char;
-                lastFg = fg;
-                lastBg = bg;
-                lastBold = bold;
-                lastItalic = italic;
-            }
-        }
+    // rasterizes on the libuv thread pool, so several cards are encoded at once
+    return renderAsync(svg, { background: '#0f172a' });
+}
 
-        if (currentSegment) {
-            rowSpans.push(createSpan(currentSegment, lastFg, lastBg, lastBold, lastItalic, y, term.cols));
-        }
+function renderCard(snapshot: TerminalSnapshot, exampleFilename: string, fonts: CardFonts): Promise<RenderedImage> {
+    return rasterize(cardFrame(exampleFilename, (
+        <div style={{
+            padding: '30px', display: 'flex', flexDirection: 'column',
+            fontSize: '20px', fontFamily: 'Cascadia Code',
+            backgroundColor: palette.colors.background, height: '100%',
+            gap: 0
+        }}>
+            {renderTerminalToJSX(snapshot, {
+                fontFamily: 'Cascadia Code',
+                fontSize: 20,
+                lineHeight: 22,
+                measureText,
+            })}
+        </div>
+    )), fonts);
+}
 
-        rows.push(
-            <div key={y} style={{
-                display: 'flex',
-                flexDirection: 'row',
-                height: '22px',
-                width: 'auto',
-                backgroundColor: '#1e1e1e',
-                margin: 0,
-                padding: 0,
-                alignItems: 'stretch',
-                justifyContent: 'flex-start',
-                overflow: 'hidden'
-            }}>
-                {rowSpans}
+// A page title in the terminal window, written like the output of a command
+function renderTitleCard(card: TitleCard, page: string, fonts: CardFonts): Promise<RenderedImage> {
+    const { colors } = palette;
+    return rasterize(cardFrame(page, (
+        <div style={{
+            padding: '56px', display: 'flex', flexDirection: 'column', justifyContent: 'center',
+            fontFamily: 'Cascadia Code', backgroundColor: colors.background, height: '100%',
+            gap: '20px'
+        }}>
+            <div style={{ display: 'flex', color: colors.brightMagenta, fontSize: '22px' }}>
+                {card.label}
             </div>
-        );
-    }
-    console.log(pc.gray("--- TERMINAL SNAPSHOT END ---"));
-    return rows;
+            <div style={{ display: 'flex', color: colors.brightWhite, fontSize: '52px', fontWeight: 700, lineHeight: 1.15 }}>
+                {truncate(card.title, 48)}
+            </div>
+            {card.subtitle && (
+                <div style={{ display: 'flex', color: colors.foreground, fontSize: '28px' }}>
+                    {truncate(card.subtitle, 56)}
+                </div>
+            )}
+            {card.code && (
+                <div style={{
+                    display: 'flex', marginTop: '12px', padding: '16px 20px', borderRadius: '8px',
+                    backgroundColor: 'rgba(255, 255, 255, 0.06)', color: colors.brightCyan, fontSize: '20px', lineHeight: 1.4
+                }}>
+                    {card.code}
+                </div>
+            )}
+        </div>
+    )), fonts);
 }
 
-function createSpan(text: string, fg: number, bg: number, isBold: boolean, isItalic: boolean, y: number, x: number) {
-    const fgColor = resolveColor(fg, true);
-    const bgColor = resolveColor(bg, false);
-
-    const fontSpec = `${isItalic ? 'italic ' : ''}${isBold ? 'bold ' : ''}${FONT_SPEC_BASE}`;
-
-    const prepared = prepareWithSegments(text, fontSpec, { whiteSpace: 'pre-wrap' });
+// Width of a run as canvas lays it out with the registered Cascadia Code fonts
+function measureText(text: string, font: string): number {
+    const prepared = prepareWithSegments(text, font, { whiteSpace: 'pre-wrap' });
     const { lines } = layoutWithLines(prepared, 2000, 22);
+    return lines[0]?.width ?? 0;
+}
 
-    const exactWidth = (lines[0]?.width > 0) ? lines[0].width : text.length * 12;
-
-    return (
-        <span key={`${y}-${x}`} style={{
-            color: fgColor,
-            backgroundColor: bgColor,
-            display: 'block',
-            width: `${exactWidth}px`,
-            height: '22px',
-            lineHeight: '22px',
-            fontFamily: 'Cascadia Code',
-            fontSize: '20px',
-            fontWeight: isBold ? 'bold' : 'normal',
-            fontStyle: isItalic ? 'italic' : 'normal',
-            whiteSpace: 'pre',
-            margin: 0,
-            padding: 0,
-            flexShrink: 0,
-            flexGrow: 0,
-            fontVariantLigatures: 'none',
-            fontFeatureSettings: '"liga" 0, "calt" 0',
-            textAlign: 'left'
-        }}>
-            {text}
-        </span>
-    );
+function logSnapshot(snapshot: TerminalSnapshot) {
+    console.log(pc.gray("--- TERMINAL SNAPSHOT START ---"));
+    snapshot.lines.forEach((runs, y) => {
+        const text = runs.map(run => run.text).join('');
+        if (text.trim().length > 0) {
+            console.log(pc.green(`[Row ${y}]: `) + text);
+        }
+    });
+    console.log(pc.gray("--- TERMINAL SNAPSHOT END ---"));
 }
 
 generateOgImages();
\ No newline at end of file
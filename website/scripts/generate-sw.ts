@@ -0,0 +1,128 @@
+import { createServer, resolveConfig } from 'vite';
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import pc from 'picocolors';
+import type { Config } from '@react-router/dev/config';
+
+interface PrecacheEntry {
+    url: string;
+    hash: string;
+}
+
+// Top-level build output that is not worth storing on every reader's device
+const EXCLUDED_DIRS = new Set(['og']);
+
+function listFiles(dir: string): string[] {
+    if (!fs.existsSync(dir)) return [];
+    return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+        const fullPath = path.join(dir, entry.name);
+        return entry.isDirectory() ? listFiles(fullPath) : [fullPath];
+    });
+}
+
+function hashFile(filePath: string): string {
+    return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex').slice(0, 16);
+}
+
+async function generateServiceWorker() {
+    const config = await resolveConfig({}, 'build');
+    const BASE_PATH = config.base.replace(/\/$/, '');
+    const BASE_SEGMENT = BASE_PATH.replace(/^\//, '');
+    const DIST_DIR = path.resolve(config.root, config.build.outDir || 'dist');
+    const TEMPLATE_PATH = path.resolve(config.root, 'scripts/service-worker.template.js');
+
+    console.log(pc.cyan(`[SW] Generating service worker for ${DIST_DIR}`));
+
+    if (!fs.existsSync(DIST_DIR)) {
+        console.log(pc.red(`[SW] Build output not found. Run the build first.`));
+        process.exit(1);
+    }
+
+    // Prerendered pages are written below the router basename, everything else at the root of the output
+    const toUrl = (filePath: string) => {
+        let relative = path.relative(DIST_DIR, filePath).split(path.sep);
+        if (BASE_SEGMENT && relative[0] === BASE_SEGMENT) relative = relative.slice(1);
+        return `${BASE_PATH}/${relative.map(encodeURIComponent).join('/')}`;
+    };
+
+    const findPage = (route: string) => {
+        const candidates = [
+            path.join(DIST_DIR, route, 'index.html'),
+            path.join(DIST_DIR, BASE_SEGMENT, route, 'index.html'),
+        ];
+        return candidates.find((candidate) => fs.existsSync(candidate));
+    };
+
+    const vite = await createServer({
+        server: { middlewareMode: true },
+        logLevel: 'error',
+        appType: 'custom'
+    });
+
+    try {
+        const files = listFiles(DIST_DIR);
+
+        // Routes listed by react-router.config.ts, plus the static routes React Router adds itself
+        const { default: routerConfig } = await vite.ssrLoadModule('./react-router.config.ts') as { default: Config };
+        const staticPaths = files
+            .filter((file) => path.basename(file) === 'index.html')
+            .map((file) => toUrl(path.dirname(file)).slice(BASE_PATH.length) || '/');
+        const prerender = routerConfig.prerender;
+        const routes = typeof prerender === 'function'
+            ? await prerender({ getStaticPaths: () => staticPaths })
+            : Array.isArray(prerender) ? prerender : staticPaths;
+
+        const entries = new Map<string, PrecacheEntry>();
+        const pages: Record<string, string> = {};
+
+        for (const route of new Set(routes.map((r) => decodeURIComponent(r)))) {
+            const file = findPage(route);
+            if (!file) {
+                console.log(pc.yellow(`[SW] Skipping route without prerendered page: ${route}`));
+                continue;
+            }
+            const url = toUrl(file);
+            entries.set(url, { url, hash: hashFile(file) });
+            const key = `${BASE_PATH}${route}`.replace(/\/+$/, '') || '/';
+            pages[key] = url;
+        }
+
+        for (const file of files) {
+            const relative = path.relative(DIST_DIR, file).split(path.sep);
+            if (EXCLUDED_DIRS.has(relative[0]) || path.basename(file) === 'sw.js') continue;
+
+            // client route data, bundled assets (including the .wasm/.dat runtime files), the .NET
+            // _framework folder and the raw markdown docs
+            const isRouteData = file.endsWith('.data');
+            const isAsset = relative.includes('assets') || relative.includes('_framework');
+            const isRawDoc = relative.includes('raw');
+            if (!isRouteData && !isAsset && !isRawDoc) continue;
+
+            const url = toUrl(file);
+            entries.set(url, { url, hash: hashFile(file) });
+        }
+
+        const sortedEntries = [...entries.values()].sort((a, b) => a.url.localeCompare(b.url));
+        const version = crypto.createHash('sha256')
+            .update(sortedEntries.map((entry) => `${entry.url} ${entry.hash}`).join('\n'))
+            .digest('hex')
+            .slice(0, 12);
+
+        const header = [
+            `const PRECACHE_VERSION = ${JSON.stringify(version)};`,
+            `const PRECACHE_ENTRIES = ${JSON.stringify(sortedEntries)};`,
+            `const PRECACHE_ROUTES = ${JSON.stringify(pages)};`,
+        ].join('\n');
+
+        fs.writeFileSync(path.join(DIST_DIR, 'sw.js'), `${header}\n\n${fs.readFileSync(TEMPLATE_PATH, 'utf8')}`);
+        console.log(pc.green(`[SW] Wrote sw.js (version ${version}) with ${sortedEntries.length} files and ${Object.keys(pages).length} pages`));
+    } catch (e) {
+        console.error(pc.red(`[SW] Generation failed: ${e}`));
+        process.exitCode = 1;
+    } finally {
+        await vite.close();
+    }
+}
+
+generateServiceWorker();
@@ -0,0 +1,213 @@
+import { createServer, resolveConfig, type ResolvedConfig } from 'vite';
+import { JSDOM } from 'jsdom';
+import { createCanvas } from 'canvas';
+import fs from 'node:fs';
+import path from 'node:path';
+import xtermPkg from '@xterm/headless';
+const { Terminal } = xtermPkg;
+
+import type { WasmExports } from 'razor-console';
+import type { ComponentInfo } from '../src/types/components/componentInfo.ts';
+
+export type HeadlessTerminal = InstanceType<typeof Terminal>;
+
+export interface RenderedExample {
+    terminal: HeadlessTerminal;
+    // everything the renderer wrote until the frame was captured
+    ansi: string;
+}
+
+export interface RecordOptions {
+    // how long to keep sampling after the example has settled
+    durationMs: number;
+    // time between two samples, shorter than the interval of the animation so no frame is missed
+    intervalMs: number;
+}
+
+export interface HeadlessRuntime {
+    config: ResolvedConfig;
+    components: ComponentInfo[];
+    /**
+     * Registers an example at a fixed size, waits until it has settled and replays its output into a headless
+     * terminal. Rejects when the example crashes or does not settle in time.
+     */
+    renderExample(exampleId: string, cols: number, rows: number): Promise<RenderedExample>;
+    /**
+     * Like `renderExample`, but keeps the example running after it has settled and samples its output over
+     * time. `onFrame` sees the terminal after every sample, the first one right after settling; returning
+     * `false` stops the recording before `durationMs` has passed.
+     */
+    recordExample(
+        exampleId: string,
+        cols: number,
+        rows: number,
+        options: RecordOptions,
+        onFrame: (terminal: HeadlessTerminal, elapsedMs: number) => boolean | void
+    ): Promise<void>;
+    /** Loads a module of the website through Vite, for data that relies on `import.meta.glob`. */
+    loadModule<T>(url: string): Promise<T>;
+    close(): Promise<void>;
+}
+
+// An example has settled once it renders nothing for this long; shorter than the interval of any animation
+const SETTLE_QUIET_MS = 50;
+// Mounting includes the async lifecycle methods of the example, which may load data
+const SETTLE_TIMEOUT_MS = 10_000;
+
+/** The `_framework` folder of the published website runtime, which the headless runtime loads its assets from. */
+export function getFrameworkDir(config: ResolvedConfig): string {
+    return path.resolve(config.root, '../artifacts/publish/RazorConsole.Website/release/wwwroot/_framework');
+}
+
+/**
+ * Boots the .NET WASM runtime of the website inside Node.js: JSDOM stands in for the browser, `node-canvas`
+ * for OffscreenCanvas, and `_framework` assets are read from the local publish output. Shared by the scripts
+ * that render component examples without a browser. The runtime itself only starts with the first
+ * `renderExample`, so a run that finds everything cached does not pay for it.
+ */
+export async function startHeadlessRuntime(): Promise<HeadlessRuntime> {
+    const config = await resolveConfig({}, 'build');
+
+    const dom = new JSDOM('<!DOCTYPE html><html><body></body></html>', {
+        url: "http://localhost",
+        pretendToBeVisual: true
+    });
+
+    global.window = dom.window as any;
+    if (typeof global.OffscreenCanvas === 'undefined') {
+        // @ts-ignore
+        global.OffscreenCanvas = class {
+            constructor(width: number, height: number) {
+                return createCanvas(width, height);
+            }
+        };
+    }
+
+    const nativeFetch = global.fetch;
+    global.fetch = async (input: any, init?: any) => {
+        const url = typeof input === 'string' ? input : input.url;
+        if (!url.startsWith('http') && (url.includes('.wasm') || url.includes('.dat'))) {
+            const fileName = url.split('/').pop()?.split('?')[0];
+            const artifactPath = path.resolve(getFrameworkDir(config), fileName!);
+            if (fs.existsSync(artifactPath)) {
+                return new Response(fs.readFileSync(artifactPath), {
+                    status: 200,
+                    headers: { 'Content-Type': url.endsWith('.wasm') ? 'application/wasm' : 'application/octet-stream' }
+                });
+            }
+        }
+        return nativeFetch(input, init);
+    };
+
+    const vite = await createServer({
+        server: { middlewareMode: true },
+        logLevel: 'error',
+        ssr: { external: ['razor-console'] },
+        appType: 'custom'
+    });
+
+    try {
+        let runtimeStart: Promise<WasmExports> | null = null;
+        const getWasmExports = () => runtimeStart ??= vite.ssrLoadModule('razor-console')
+            .then(({ createRuntimeAndGetExports }) => createRuntimeAndGetExports() as Promise<WasmExports>);
+        const { components } = await vite.ssrLoadModule('./src/data/components.ts') as { components: ComponentInfo[] };
+
+        const capturedAnsi: Record<string, string> = {};
+        (global.window as any).razorConsoleTerminal = {
+            write: (id: string, text: string) => { capturedAnsi[id] = (capturedAnsi[id] || '') + text; },
+            init: async () => { }, clear: () => { }, dispose: () => { }, attachKeyListener: () => { },
+            reportError: () => { }, reportDiagnostic: () => { }, reportFocusRegions: () => { }
+        };
+
+        const createTerminal = (cols: number, rows: number): HeadlessTerminal => new Terminal({
+            cols,
+            rows,
+            allowProposedApi: true,
+            convertEol: true
+        });
+
+        // the callback runs once xterm has parsed everything into the buffer
+        const writeTerminal = (terminal: HeadlessTerminal, ansi: string) =>
+            new Promise<void>((resolve) => terminal.write(ansi, resolve));
+
+        // stops animations, so a finished example does not keep writing while the next one renders
+        const unmountExample = async (wasmExports: WasmExports, exampleId: string) => {
+            await wasmExports.Registry.UnregisterComponent(exampleId);
+            delete capturedAnsi[exampleId];
+        };
+
+        const mountExample = async (wasmExports: WasmExports, exampleId: string, cols: number, rows: number) => {
+            capturedAnsi[exampleId] = '';
+            await wasmExports.Registry.RegisterComponent(exampleId, cols, rows);
+            if (wasmExports.Registry.HandleResize) {
+                await wasmExports.Registry.HandleResize(exampleId, cols, rows);
+            }
+
+            try {
+                await wasmExports.Registry.WaitForRenderSettled(exampleId, SETTLE_QUIET_MS, SETTLE_TIMEOUT_MS);
+            } catch (e) {
+                await unmountExample(wasmExports, exampleId);
+                throw new Error(`${exampleId} did not finish rendering at ${cols}x${rows}: ${e instanceof Error ? e.message : e}`);
+            }
+        };
+
+        const renderExample = async (exampleId: string, cols: number, rows: number): Promise<RenderedExample> => {
+            const wasmExports = await getWasmExports();
+            const terminal = createTerminal(cols, rows);
+
+            await mountExample(wasmExports, exampleId, cols, rows);
+            const ansi = capturedAnsi[exampleId] || '';
+            await unmountExample(wasmExports, exampleId);
+
+            await writeTerminal(terminal, ansi);
+            return { terminal, ansi };
+        };
+
+        const recordExample: HeadlessRuntime['recordExample'] = async (exampleId, cols, rows, options, onFrame) => {
+            const wasmExports = await getWasmExports();
+            const terminal = createTerminal(cols, rows);
+
+            await mountExample(wasmExports, exampleId, cols, rows);
+            try {
+                const start = Date.now();
+                let written = 0;
+                for (let elapsed = 0; elapsed <= options.durationMs; elapsed = Date.now() - start) {
+                    // only what was written since the previous sample, the terminal already holds the rest
+                    const ansi = capturedAnsi[exampleId] || '';
+                    await writeTerminal(terminal, ansi.slice(written));
+                    written = ansi.length;
+
+                    if (onFrame(terminal, elapsed) === false) break;
+                    // timers of the .NET runtime fire while this one waits
+                    await new Promise(resolve => setTimeout(resolve, options.intervalMs));
+                }
+            } finally {
+                await unmountExample(wasmExports, exampleId);
+                terminal.dispose();
+            }
+        };
+
+        return {
+            config,
+            components,
+            renderExample,
+            recordExample,
+            loadModule: async <T>(url: string) => await vite.ssrLoadModule(url) as T,
+            close: () => vite.close(),
+        };
+    } catch (e) {
+        await vite.close();
+        throw e;
+    }
+}
+
+/** Narrows the components to the one named by `--componentName`, ignoring case; throws when there is none. */
+export function selectComponents(components: ComponentInfo[], componentName: string | undefined): ComponentInfo[] {
+    if (!componentName) return components;
+
+    const selected = components.filter(c => c.name.toLowerCase() === componentName.toLowerCase());
+    if (selected.length === 0) {
+        throw new Error(`Component "${componentName}" not found in metadata.`);
+    }
+    return selected;
+}
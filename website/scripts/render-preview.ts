@@ -0,0 +1,195 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { renderAsync } from '@resvg/resvg-js';
+import pc from 'picocolors';
+
+import type { ComponentInfo } from '../src/types/components/componentInfo.ts';
+import { getExampleId } from '../src/lib/examples.ts';
+import {
+    DEFAULT_DARK_PALETTE,
+    TERMINAL_PALETTES,
+    getTerminalPalette,
+    isTerminalPaletteSelection,
+} from '../src/lib/terminalTheme.ts';
+import { MAX_SIZE, MIN_SIZE, formatSize } from '../src/lib/terminalSize.ts';
+import { captureSnapshot, toAnsi, toHtml, toPlainText, toSvg } from '../src/lib/terminalSnapshot.tsx';
+import { PNG_SCALE, SNAPSHOT_FORMATS, SNAPSHOT_TEXT_OPTIONS, type SnapshotFormat } from '../src/lib/snapshotExport.ts';
+import { selectComponents, startHeadlessRuntime, type HeadlessRuntime } from './headless-runtime.ts';
+
+const USAGE = `Usage: npm run render:preview -- --component <name> [options]
+
+Options:
+  --component <name>   Component whose first example is rendered, e.g. Panel
+  --example <id>       A specific example instead, e.g. Select_2 or Select_2.razor
+  --cols <n>           Terminal columns (default 80)
+  --rows <n>           Terminal rows (default 24)
+  --format <format>    ${SNAPSHOT_FORMATS.map(format => format.id).join(' | ')} (default svg)
+  --palette <id>       ${Object.keys(TERMINAL_PALETTES).join(' | ')} (default ${DEFAULT_DARK_PALETTE})
+  --out <file>         Output file, - for stdout (default {example}.{cols}x{rows}.{format})
+  --list               Lists the components and their examples
+  --help               Shows this message`;
+
+class UsageError extends Error { }
+
+interface RenderTarget {
+    component: ComponentInfo;
+    exampleFilename: string;
+}
+
+function parseOptions() {
+    try {
+        return parseArgs({
+            options: {
+                component: { type: 'string' },
+                example: { type: 'string' },
+                cols: { type: 'string', default: '80' },
+                rows: { type: 'string', default: '24' },
+                format: { type: 'string', default: 'svg' },
+                palette: { type: 'string', default: DEFAULT_DARK_PALETTE },
+                out: { type: 'string' },
+                list: { type: 'boolean', default: false },
+                help: { type: 'boolean', default: false },
+            },
+        }).values;
+    } catch (e) {
+        throw new UsageError(e instanceof Error ? e.message : String(e));
+    }
+}
+
+function parseDimension(name: string, value: string, min: number, max: number): number {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+        throw new UsageError(`--${name} must be a whole number from ${min} to ${max}, got "${value}".`);
+    }
+    return parsed;
+}
+
+function isSnapshotFormat(value: string): value is SnapshotFormat {
+    return SNAPSHOT_FORMATS.some(format => format.id === value);
+}
+
+// The example named by --example, or else the first example of --component
+function findTarget(components: ComponentInfo[], componentName?: string, example?: string): RenderTarget {
+    const candidates = componentName ? selectComponents(components, componentName) : components;
+    if (!example) {
+        const component = candidates[0];
+        if (!componentName || component.examples.length === 0) {
+            throw new UsageError(componentName ? `${component.name} has no examples.` : 'Pass --component or --example.');
+        }
+        return { component, exampleFilename: component.examples[0] };
+    }
+
+    const exampleId = getExampleId(example).toLowerCase();
+    for (const component of candidates) {
+        const exampleFilename = component.examples.find(file => getExampleId(file).toLowerCase() === exampleId);
+        if (exampleFilename) return { component, exampleFilename };
+    }
+    throw new UsageError(`Example "${example}" not found${componentName ? ` in ${componentName}` : ''}. See --list.`);
+}
+
+function printComponents(components: ComponentInfo[]) {
+    for (const component of components) {
+        console.log(`${pc.bold(component.name)} ${pc.dim(component.examples.map(getExampleId).join(', '))}`);
+    }
+}
+
+/**
+ * Renders a component example with the headless runtime of the site and writes it in one of the formats of
+ * the export menu of the live previews, e.g. for README images and release-note screenshots.
+ */
+async function renderPreview() {
+    let runtime: HeadlessRuntime | null = null;
+    let exitCode = 0;
+    try {
+        const options = parseOptions();
+        if (options.help) {
+            console.log(USAGE);
+            return;
+        }
+
+        const cols = parseDimension('cols', options.cols, MIN_SIZE.cols, MAX_SIZE.cols);
+        const rows = parseDimension('rows', options.rows, MIN_SIZE.rows, MAX_SIZE.rows);
+        const format = options.format;
+        if (!isSnapshotFormat(format)) {
+            throw new UsageError(`Unknown format "${format}". Available: ${SNAPSHOT_FORMATS.map(f => f.id).join(', ')}`);
+        }
+        if (!isTerminalPaletteSelection(options.palette) || options.palette === 'auto') {
+            throw new UsageError(`Unknown palette "${options.palette}". Available: ${Object.keys(TERMINAL_PALETTES).join(', ')}`);
+        }
+        const palette = getTerminalPalette(options.palette);
+
+        const toStdout = options.out === '-';
+        if (toStdout) {
+            // the .NET runtime logs through console.log, which would end up in the output
+            console.log = console.error;
+        }
+
+        runtime = await startHeadlessRuntime();
+        if (options.list) {
+            printComponents(runtime.components);
+            return;
+        }
+
+        let target: RenderTarget;
+        try {
+            target = findTarget(runtime.components, options.component, options.example);
+        } catch (e) {
+            throw e instanceof UsageError ? e : new UsageError(e instanceof Error ? e.message : String(e));
+        }
+        const exampleId = getExampleId(target.exampleFilename);
+        console.error(pc.cyan(`[Preview] Rendering ${target.component.name} (${target.exampleFilename}) at ${formatSize({ cols, rows })}`));
+
+        const { terminal } = await runtime.renderExample(exampleId, cols, rows);
+        const snapshot = captureSnapshot(terminal, palette.colors);
+        terminal.dispose();
+
+        let output: string | Buffer;
+        switch (format) {
+            case 'svg':
+                output = toSvg(snapshot, SNAPSHOT_TEXT_OPTIONS);
+                break;
+            case 'png': {
+                // the fonts of the site, so the image does not depend on what is installed
+                const fontsDir = path.resolve(runtime.config.root, 'src/assets/fonts');
+                const image = await renderAsync(toSvg(snapshot, SNAPSHOT_TEXT_OPTIONS), {
+                    fitTo: { mode: 'zoom', value: PNG_SCALE },
+                    font: {
+                        fontFiles: fs.readdirSync(fontsDir).filter(file => file.endsWith('.ttf')).map(file => path.join(fontsDir, file)),
+                        loadSystemFonts: false,
+                        defaultFontFamily: 'Cascadia Code',
+                    },
+                });
+                output = image.asPng();
+                break;
+            }
+            case 'html':
+                output = toHtml(snapshot, `${target.component.name} (${target.exampleFilename})`, SNAPSHOT_TEXT_OPTIONS);
+                break;
+            case 'ansi':
+                output = toAnsi(snapshot);
+                break;
+            case 'txt':
+                output = toPlainText(snapshot);
+                break;
+        }
+
+        if (toStdout) {
+            await new Promise<void>((resolve, reject) => process.stdout.write(output, e => (e ? reject(e) : resolve())));
+        } else {
+            const file = path.resolve(options.out ?? `${exampleId}.${cols}x${rows}.${format}`);
+            fs.mkdirSync(path.dirname(file), { recursive: true });
+            fs.writeFileSync(file, output);
+            console.error(pc.green(`[Preview] Saved ${path.relative(process.cwd(), file)}`));
+        }
+    } catch (e) {
+        console.error(pc.red(`[Preview] ${e instanceof Error ? e.message : e}`));
+        if (e instanceof UsageError) console.error(`\n${USAGE}`);
+        exitCode = 1;
+    } finally {
+        await runtime?.close();
+        process.exit(exitCode);
+    }
+}
+
+renderPreview();
@@ -0,0 +1,137 @@
+// Service worker template. `generate-sw.ts` prepends the precache manifest
+// (PRECACHE_VERSION, PRECACHE_ENTRIES, PRECACHE_ROUTES) and writes the result to `sw.js`.
+/* global PRECACHE_VERSION, PRECACHE_ENTRIES, PRECACHE_ROUTES */
+
+const CACHE_PREFIX = 'razorconsole-precache-';
+const CACHE_NAME = CACHE_PREFIX + PRECACHE_VERSION;
+// Synthetic cache entry listing the hash of every cached url, used to reuse unchanged files on update
+const MANIFEST_URL = new URL('__precache-manifest', self.registration.scope).pathname;
+const INSTALL_CONCURRENCY = 6;
+
+const precachedUrls = new Set(PRECACHE_ENTRIES.map((entry) => entry.url));
+
+async function readManifest(cache) {
+    const response = await cache.match(MANIFEST_URL);
+    return response ? response.json() : {};
+}
+
+async function getPreviousCaches() {
+    const previous = [];
+    for (const name of await caches.keys()) {
+        if (name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME) {
+            const cache = await caches.open(name);
+            previous.push({ cache, manifest: await readManifest(cache) });
+        }
+    }
+    return previous;
+}
+
+async function precacheEntry(cache, previous, entry) {
+    // Files whose content hash did not change are copied from the previous version instead of downloaded
+    for (const { cache: oldCache, manifest } of previous) {
+        if (manifest[entry.url] === entry.hash) {
+            const cached = await oldCache.match(entry.url);
+            if (cached) {
+                await cache.put(entry.url, cached);
+                return;
+            }
+        }
+    }
+
+    const response = await fetch(entry.url, { cache: 'reload' });
+    if (!response.ok) {
+        throw new Error(`Failed to precache ${entry.url}: ${response.status}`);
+    }
+    await cache.put(entry.url, response);
+}
+
+async function precache() {
+    const cache = await caches.open(CACHE_NAME);
+    const previous = await getPreviousCaches();
+    const queue = [...PRECACHE_ENTRIES];
+
+    const workers = Array.from({ length: INSTALL_CONCURRENCY }, async () => {
+        while (queue.length > 0) {
+            await precacheEntry(cache, previous, queue.shift());
+        }
+    });
+    await Promise.all(workers);
+
+    const manifest = Object.fromEntries(PRECACHE_ENTRIES.map((entry) => [entry.url, entry.hash]));
+    await cache.put(MANIFEST_URL, new Response(JSON.stringify(manifest), {
+        headers: { 'Content-Type': 'application/json' }
+    }));
+}
+
+self.addEventListener('install', (event) => {
+    // The new version waits until the page accepts the "new version available" prompt
+    event.waitUntil(precache());
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil((async () => {
+        for (const name of await caches.keys()) {
+            if (name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME) {
+                await caches.delete(name);
+            }
+        }
+        await self.clients.claim();
+    })());
+});
+
+self.addEventListener('message', (event) => {
+    if (event.data && event.data.type === 'SKIP_WAITING') {
+        self.skipWaiting();
+    }
+});
+
+function normalizeRoute(pathname) {
+    const route = pathname.replace(/\/index\.html$/, '').replace(/\/+$/, '');
+    return route === '' ? '/' : route;
+}
+
+async function fromPrecache(url, request) {
+    const cache = await caches.open(CACHE_NAME);
+    const cached = await cache.match(url);
+    return cached ?? fetch(request);
+}
+
+async function handleNavigation(url, request) {
+    const page = PRECACHE_ROUTES[normalizeRoute(decodeURIComponent(url.pathname))];
+    if (page) {
+        return fromPrecache(page, request);
+    }
+
+    try {
+        return await fetch(request);
+    } catch (error) {
+        // Offline and not prerendered: let the client router render the route from the home page
+        const home = PRECACHE_ROUTES[normalizeRoute(new URL(self.registration.scope).pathname)];
+        const cached = home && await caches.open(CACHE_NAME).then((cache) => cache.match(home));
+        if (cached) {
+            return cached;
+        }
+        throw error;
+    }
+}
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    if (request.method !== 'GET') {
+        return;
+    }
+
+    const url = new URL(request.url);
+    if (url.origin !== self.location.origin) {
+        return;
+    }
+
+    if (request.mode === 'navigate') {
+        event.respondWith(handleNavigation(url, request));
+        return;
+    }
+
+    if (precachedUrls.has(url.pathname)) {
+        event.respondWith(fromPrecache(url.pathname, request));
+    }
+});
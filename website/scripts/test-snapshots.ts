@@ -0,0 +1,153 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import pc from 'picocolors';
+
+import { getExampleId } from '../src/lib/examples.ts';
+import { DEFAULT_DARK_PALETTE, getTerminalPalette } from '../src/lib/terminalTheme.ts';
+import { SIZE_PRESETS, formatSize, type TerminalSize } from '../src/lib/terminalSize.ts';
+import { captureSnapshot, type TerminalSnapshot } from '../src/lib/terminalSnapshot.tsx';
+import { selectComponents, startHeadlessRuntime, type HeadlessRuntime } from './headless-runtime.ts';
+
+const args = process.argv.slice(2);
+const update = args.includes('--update');
+const componentNameArg = args.find(a => a.startsWith('--componentName='))?.split('=')[1];
+const sizeArg = args.find(a => a.startsWith('--size='))?.split('=')[1];
+
+// Golden files do not depend on the palette a visitor picks
+const palette = getTerminalPalette(DEFAULT_DARK_PALETTE);
+// rows shown per mismatching file before the rest is summarized
+const MAX_DIFF_ROWS = 20;
+
+type Outcome = 'passed' | 'failed' | 'missing' | 'updated';
+
+interface FileResult {
+    file: string;
+    outcome: Outcome;
+    // contents of the golden file when it differs
+    expected?: string;
+    actual: string;
+}
+
+function parseSize(value: string): TerminalSize {
+    const match = /^(\d+)x(\d+)$/.exec(value);
+    if (!match) {
+        console.log(pc.red(`[Snapshots] Invalid size "${value}". Expected columns x rows, e.g. --size=80x24`));
+        process.exit(1);
+    }
+    return { cols: Number(match[1]), rows: Number(match[2]) };
+}
+
+// Every row of the screen, so row numbers in diffs match the terminal
+function toText(snapshot: TerminalSnapshot): string {
+    return snapshot.lines.map(runs => runs.map(run => run.text).join('').trimEnd()).join('\n') + '\n';
+}
+
+// One terminal row per line, so diffs of the cell JSON also point at rows
+function toCellJson(snapshot: TerminalSnapshot): string {
+    const rows = snapshot.lines.map(runs => `    ${JSON.stringify(runs)}`);
+    return `{\n  "cols": ${snapshot.cols},\n  "rows": ${snapshot.rows},\n  "lines": [\n${rows.join(',\n')}\n  ]\n}\n`;
+}
+
+function printDiff(file: string, expected: string, actual: string) {
+    const expectedLines = expected.split('\n');
+    const actualLines = actual.split('\n');
+    const length = Math.max(expectedLines.length, actualLines.length);
+
+    console.log(pc.bold(`    ${file}`));
+    let shown = 0;
+    let hidden = 0;
+    for (let i = 0; i < length; i++) {
+        if (expectedLines[i] === actualLines[i]) continue;
+        if (shown >= MAX_DIFF_ROWS) {
+            hidden++;
+            continue;
+        }
+        shown++;
+        const line = String(i + 1).padStart(4);
+        if (expectedLines[i] !== undefined) console.log(pc.red(`    ${line} - ${expectedLines[i]}`));
+        if (actualLines[i] !== undefined) console.log(pc.green(`    ${line} + ${actualLines[i]}`));
+    }
+    if (hidden > 0) console.log(pc.dim(`         ... ${hidden} more changed lines`));
+}
+
+function checkFile(file: string, actual: string): FileResult {
+    const expected = fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : undefined;
+    if (expected === actual) return { file, outcome: 'passed', actual };
+
+    if (update) {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, actual);
+        return { file, outcome: 'updated', actual };
+    }
+    return expected === undefined ? { file, outcome: 'missing', actual } : { file, outcome: 'failed', expected, actual };
+}
+
+/**
+ * Renders every component example at fixed sizes and compares the plain text and the styled cells with the
+ * golden files under `snapshots/`. Exits with 1 when any of them differ, or are missing once `snapshots/`
+ * exists; `--update` rewrites them instead.
+ */
+async function testSnapshots() {
+    const sizes = sizeArg ? [parseSize(sizeArg)] : SIZE_PRESETS;
+    const counts: Record<Outcome, number> = { passed: 0, failed: 0, missing: 0, updated: 0 };
+
+    let runtime: HeadlessRuntime | null = null;
+    let exitCode = 0;
+    try {
+        runtime = await startHeadlessRuntime();
+        const snapshotDir = path.resolve(runtime.config.root, 'snapshots');
+        // before the first golden files are committed, a missing one is reported but does not fail the run
+        const hasGoldenFiles = fs.existsSync(snapshotDir);
+        const components = selectComponents(runtime.components, componentNameArg);
+
+        for (const comp of components) {
+            for (const exampleFilename of comp.examples) {
+                const exampleId = getExampleId(exampleFilename);
+                for (const size of sizes) {
+                    const { terminal } = await runtime.renderExample(exampleId, size.cols, size.rows);
+                    const snapshot = captureSnapshot(terminal, palette.colors);
+                    terminal.dispose();
+
+                    const base = path.join(snapshotDir, comp.name, `${exampleId}.${size.cols}x${size.rows}`);
+                    const results = [
+                        checkFile(`${base}.txt`, toText(snapshot)),
+                        checkFile(`${base}.json`, toCellJson(snapshot)),
+                    ];
+                    const outcomes = results.map(result => result.outcome);
+                    outcomes.forEach(outcome => counts[outcome]++);
+
+                    const label = `${comp.name} (${exampleFilename}) at ${formatSize(size)}`;
+                    if (outcomes.includes('failed')) {
+                        console.log(pc.red(`[Snapshots] ✗ ${label}`));
+                        for (const { file, expected, actual } of results) {
+                            if (expected !== undefined) printDiff(path.relative(process.cwd(), file), expected, actual);
+                        }
+                    } else if (outcomes.includes('missing')) {
+                        console.log(pc.yellow(`[Snapshots] ? ${label}: no golden file, run with --update`));
+                    } else if (outcomes.includes('updated')) {
+                        console.log(pc.cyan(`[Snapshots] ↻ ${label}`));
+                    } else {
+                        console.log(pc.dim(`[Snapshots] ✓ ${label}`));
+                    }
+                }
+            }
+        }
+
+        const summary = `Golden files: ${counts.passed} passed, ${counts.failed} failed, ` +
+            `${counts.missing} missing, ${counts.updated} updated`;
+        if (counts.failed > 0 || (hasGoldenFiles && counts.missing > 0)) {
+            console.log(pc.red(`[Snapshots] ${summary}. Run with --update if the changes are intended.`));
+            exitCode = 1;
+        } else {
+            console.log(pc.green(`[Snapshots] ${summary}.`));
+        }
+    } catch (e) {
+        console.error(pc.red(`[Snapshots] Error: ${e instanceof Error ? e.message : e}`));
+        exitCode = 1;
+    } finally {
+        await runtime?.close();
+        process.exit(exitCode);
+    }
+}
+
+testSnapshots();
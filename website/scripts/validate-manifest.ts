@@ -0,0 +1,213 @@
+import { createServer, resolveConfig } from 'vite';
+import fs from 'node:fs';
+import path from 'node:path';
+import pc from 'picocolors';
+
+import type { ComponentInfo } from '../src/types/components/componentInfo.ts';
+import type { DocfxApiItem, DocfxApiMember } from '../src/data/api-docs.ts';
+import { getExampleId } from '../src/lib/examples.ts';
+
+type Severity = 'error' | 'warning';
+
+interface Finding {
+    severity: Severity;
+    // short id of the check, printed as the heading of its findings
+    check: string;
+    message: string;
+}
+
+interface ComponentsModule {
+    componentMetadata: Record<string, Partial<ComponentInfo>>;
+    typeOverrides: Record<string, Record<string, string>>;
+    docfxNameOverrides: Record<string, string>;
+    findDocfxItem(componentName: string): DocfxApiItem | undefined;
+    generateComponents(): ComponentInfo[];
+    isParameterMember(member: Pick<DocfxApiMember, 'type' | 'attributes'>): boolean;
+}
+
+interface RegistryCase {
+    exampleId: string;
+    // the Razor type the case renders
+    type: string;
+}
+
+const strict = process.argv.includes('--strict');
+
+const COMPONENTS_NAMESPACE = 'RazorConsole.Components';
+
+function listRazorFiles(dir: string): string[] {
+    return fs.existsSync(dir) ? fs.readdirSync(dir).filter(file => file.endsWith('.razor')).sort() : [];
+}
+
+// The cases of the switch in Registry.RegisterComponent, up to the next export
+function parseRegistryCases(programSource: string): RegistryCase[] {
+    const start = programSource.indexOf('void RegisterComponent(');
+    if (start < 0) return [];
+    const end = programSource.indexOf('[JSExport]', start);
+    const body = programSource.slice(start, end < 0 ? undefined : end);
+
+    const cases: RegistryCase[] = [];
+    const pattern = /case\s+"([^"]+)":\s*_renderers\[elementID\]\s*=\s*new\s+RazorConsoleRenderer<([\w.]+)>/g;
+    for (const match of body.matchAll(pattern)) {
+        cases.push({ exampleId: match[1], type: match[2].split('.').pop()! });
+    }
+    return cases;
+}
+
+/**
+ * Cross-checks everything a component page is assembled from: `componentMetadata` and its overrides in
+ * `components.generated.ts`, the example files in `RazorConsole.Website/Components`, the switch in
+ * `Registry.RegisterComponent`, the DocFX metadata and the components of `RazorConsole.Core`, whether they are
+ * `.razor` files or C# classes.
+ * Drift between them otherwise shows up as a preview that renders nothing or a parameter table that is wrong.
+ */
+async function validateManifest() {
+    const config = await resolveConfig({}, 'build');
+    const repoRoot = path.resolve(config.root, '..');
+    const EXAMPLES_DIR = path.join(repoRoot, 'src/RazorConsole.Website/Components');
+    const PROGRAM_PATH = path.join(repoRoot, 'src/RazorConsole.Website/Program.cs');
+    const CORE_COMPONENTS_DIR = path.join(repoRoot, 'src/RazorConsole.Core/Components');
+
+    const vite = await createServer({
+        server: { middlewareMode: true },
+        logLevel: 'error',
+        appType: 'custom'
+    });
+
+    const findings: Finding[] = [];
+    const report = (severity: Severity, check: string, message: string) => findings.push({ severity, check, message });
+
+    let exitCode = 0;
+    try {
+        const {
+            componentMetadata,
+            typeOverrides,
+            docfxNameOverrides,
+            findDocfxItem,
+            generateComponents,
+            isParameterMember,
+        } = await vite.ssrLoadModule('./src/data/components.generated.ts') as ComponentsModule;
+        const { apiItems } = await vite.ssrLoadModule('./src/data/api-docs.ts') as { apiItems: Record<string, DocfxApiItem> };
+        const hasDocfx = Object.keys(apiItems).length > 0;
+        if (!hasDocfx) {
+            report('warning', 'docfx', 'No DocFX metadata found, skipping the API checks. Run `npm run build:docfx` first.');
+        }
+
+        const exampleFiles = new Set(listRazorFiles(EXAMPLES_DIR));
+        const registryCases = parseRegistryCases(fs.readFileSync(PROGRAM_PATH, 'utf8'));
+        const registered = new Map(registryCases.map(entry => [entry.exampleId, entry]));
+        const referencedExamples = new Set<string>();
+
+        // Every example of every component has a file and a case in the registry
+        for (const [name, metadata] of Object.entries(componentMetadata)) {
+            const examples = metadata.examples ?? [];
+            if (examples.length === 0) {
+                report('error', 'missing-example', `${name} lists no examples, so its page has no preview.`);
+            }
+            for (const exampleFilename of examples) {
+                referencedExamples.add(exampleFilename);
+                const exampleId = getExampleId(exampleFilename);
+                if (!exampleFiles.has(exampleFilename)) {
+                    report('error', 'missing-example', `${name} lists ${exampleFilename}, which is not in ${path.relative(repoRoot, EXAMPLES_DIR)}.`);
+                }
+                if (!registered.has(exampleId)) {
+                    report('error', 'unregistered-preview', `${exampleFilename} of ${name} has no \`case "${exampleId}":\` in Registry.RegisterComponent.`);
+                }
+            }
+        }
+
+        for (const entry of registryCases) {
+            if (entry.type !== entry.exampleId) {
+                report('error', 'registry-mismatch', `case "${entry.exampleId}" renders ${entry.type}, not the ${entry.exampleId} example.`);
+            }
+            if (!exampleFiles.has(`${entry.exampleId}.razor`)) {
+                report('error', 'registry-mismatch', `case "${entry.exampleId}" has no ${entry.exampleId}.razor example file.`);
+            } else if (!referencedExamples.has(`${entry.exampleId}.razor`)) {
+                report('warning', 'unused-example', `${entry.exampleId} is registered, but no component lists it in \`examples\`.`);
+            }
+        }
+        for (const file of exampleFiles) {
+            if (!referencedExamples.has(file) && !registered.has(getExampleId(file))) {
+                report('warning', 'unused-example', `${file} is neither listed in \`examples\` nor registered.`);
+            }
+        }
+
+        // Overrides only apply to components and parameters that still exist
+        const components = new Map(generateComponents().map(component => [component.name, component]));
+        for (const [name, overrides] of Object.entries(typeOverrides)) {
+            const component = components.get(name);
+            if (!component) {
+                report('error', 'stale-type-override', `typeOverrides has ${name}, which is not in componentMetadata.`);
+                continue;
+            }
+            if (!hasDocfx || !findDocfxItem(name)) continue;
+
+            const parameters = new Set(component.parameters?.map(parameter => parameter.name));
+            for (const property of Object.keys(overrides)) {
+                if (!parameters.has(property)) {
+                    report('error', 'stale-type-override', `typeOverrides.${name}.${property} matches no parameter of ${name}.`);
+                }
+            }
+        }
+
+        // The .razor files, plus every class of the namespace that takes parameters, which covers components
+        // written in plain C#. Generic types drop their arity suffix, e.g. `Select-1`.
+        const coreComponents = new Set(listRazorFiles(CORE_COMPONENTS_DIR).map(file => file.replace(/\.razor$/, '')));
+        for (const item of Object.values(apiItems)) {
+            if (item.namespace === COMPONENTS_NAMESPACE && item.type === 'Class' && item.members?.some(isParameterMember)) {
+                coreComponents.add(item.uid.slice(COMPONENTS_NAMESPACE.length + 1).replace(/-\d+$/, ''));
+            }
+        }
+        for (const [name, target] of Object.entries(docfxNameOverrides)) {
+            if (!componentMetadata[name]) {
+                report('error', 'stale-name-override', `docfxNameOverrides has ${name}, which is not in componentMetadata.`);
+            } else if (!coreComponents.has(target)) {
+                report('error', 'stale-name-override', `docfxNameOverrides maps ${name} to ${target}, which is not a component in RazorConsole.Core.`);
+            }
+        }
+
+        // Every documented component has API docs, and every component is documented
+        if (hasDocfx) {
+            for (const name of Object.keys(componentMetadata)) {
+                if (!findDocfxItem(name)) {
+                    report('error', 'missing-api-docs', `${name} has no DocFX item, so its parameters and API section are empty.`);
+                }
+            }
+        }
+        const documented = new Set(Object.keys(componentMetadata).map(name => docfxNameOverrides[name] ?? name));
+        for (const name of coreComponents) {
+            if (!documented.has(name)) {
+                report('warning', 'undocumented-component', `${COMPONENTS_NAMESPACE}.${name} has no entry in componentMetadata.`);
+            }
+        }
+
+        const checks = [...new Set(findings.map(finding => finding.check))];
+        for (const check of checks) {
+            console.log(pc.bold(`[MANIFEST] ${check}`));
+            for (const finding of findings.filter(finding => finding.check === check)) {
+                const mark = finding.severity === 'error' ? pc.red('✗') : pc.yellow('!');
+                console.log(`  ${mark} ${finding.message}`);
+            }
+        }
+
+        const errors = findings.filter(finding => finding.severity === 'error').length;
+        const warnings = findings.length - errors;
+        const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+        const summary = `${plural(Object.keys(componentMetadata).length, 'component')}, ` +
+            `${plural(registryCases.length, 'registered preview')}: ${plural(errors, 'error')}, ${plural(warnings, 'warning')}`;
+        if (errors > 0 || (strict && warnings > 0)) {
+            console.log(pc.red(`[MANIFEST] ${summary}.`));
+            exitCode = 1;
+        } else {
+            console.log(pc.green(`[MANIFEST] ${summary}.`));
+        }
+    } catch (e) {
+        console.error(pc.red(`[MANIFEST] Validation failed: ${e instanceof Error ? e.message : e}`));
+        exitCode = 1;
+    } finally {
+        await vite.close();
+        process.exit(exitCode);
+    }
+}
+
+validateManifest();
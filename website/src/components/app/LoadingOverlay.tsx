@@ -1,11 +1,17 @@
-﻿import { Terminal } from "lucide-react"
+﻿import { RotateCcw, Terminal } from "lucide-react"
 import { useState, useEffect, useRef } from "react"
+import RuntimeLoadStatus from "@/components/app/RuntimeLoadStatus"
+import type { RuntimeStatus } from "@/lib/xtermConsole"
 
 interface Props {
   text: string
+  // stage and download progress of the .NET runtime, if the overlay waits for it
+  runtimeStatus?: RuntimeStatus
+  // shown as a retry button when the runtime failed to start
+  onRetry?: () => void
 }
 
-const LoadingOverlay: React.FC<Props> = ({ text }) => {
+const LoadingOverlay: React.FC<Props> = ({ text, runtimeStatus, onRetry }) => {
   const [dots, setDots] = useState("")
   const increasingRef = useRef(true)
 
@@ -53,6 +59,24 @@ const LoadingOverlay: React.FC<Props> = ({ text }) => {
         <p className="animate-pulse bg-gradient-to-r from-blue-600 to-violet-600 bg-clip-text text-lg font-medium text-transparent dark:from-blue-400 dark:to-violet-400">
           {text}
         </p>
+
+        {runtimeStatus && (
+          <RuntimeLoadStatus
+            status={runtimeStatus}
+            className="mt-6 text-slate-600 dark:text-slate-300 [&_[role=progressbar]]:bg-slate-200 dark:[&_[role=progressbar]]:bg-slate-800"
+          />
+        )}
+
+        {runtimeStatus?.stage === "failed" && onRetry && (
+          <button
+            type="button"
+            className="mt-4 inline-flex items-center gap-1.5 rounded-md border border-slate-300 px-3 py-1.5 text-sm font-medium text-slate-700 hover:bg-slate-100 dark:border-slate-700 dark:text-slate-200 dark:hover:bg-slate-900"
+            onClick={onRetry}
+          >
+            <RotateCcw className="h-3.5 w-3.5" />
+            Retry
+          </button>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,106 @@
+import { Check } from "lucide-react"
+import type { RuntimeStatus } from "@/lib/xtermConsole"
+import { cn } from "@/lib/utils"
+
+interface Props {
+  status: RuntimeStatus
+  className?: string
+}
+
+const STAGES = [
+  { id: "download", label: "Download" },
+  { id: "start", label: "Start runtime" },
+  { id: "mount", label: "Mount" },
+] as const
+
+type StageId = (typeof STAGES)[number]["id"]
+
+function formatMegabytes(bytes: number): string {
+  return (bytes / (1024 * 1024)).toFixed(1)
+}
+
+// once the runtime is ready, the remaining work is mounting the component
+function getActiveStage(status: RuntimeStatus): StageId {
+  if (status.stage === "ready") return "mount"
+  if (status.stage === "start") return "start"
+  return "download"
+}
+
+/**
+ * Shows which stage of starting a preview is running, with download progress of the `_framework` assets.
+ */
+export default function RuntimeLoadStatus({ status, className }: Props) {
+  const activeStage = getActiveStage(status)
+  const activeIndex = STAGES.findIndex((stage) => stage.id === activeStage)
+
+  let detail: string
+  let percent: number | null = null
+  if (status.stage === "download") {
+    // the byte total only covers assets that started downloading, so the asset count is the steadier measure
+    if (status.totalAssets > 0) {
+      percent = Math.min(100, (status.loadedAssets / status.totalAssets) * 100)
+    } else if (status.totalBytes > 0) {
+      percent = Math.min(100, (status.loadedBytes / status.totalBytes) * 100)
+    }
+    detail = `${formatMegabytes(status.loadedBytes)} / ${formatMegabytes(status.totalBytes)} MB`
+    if (status.totalAssets > 0) {
+      detail += ` · ${status.loadedAssets}/${status.totalAssets} files`
+    }
+  } else if (status.stage === "start") {
+    detail = "Starting the .NET runtime"
+  } else if (status.stage === "ready") {
+    detail = "Rendering the component"
+  } else if (status.stage === "failed") {
+    detail = status.message
+  } else {
+    detail = "Preparing download"
+  }
+
+  return (
+    <div className={cn("flex w-full max-w-xs flex-col gap-2 font-sans text-xs", className)}>
+      <ol className="flex items-center justify-between gap-2">
+        {STAGES.map((stage, index) => (
+          <li
+            key={stage.id}
+            aria-current={index === activeIndex ? "step" : undefined}
+            className={cn(
+              "flex items-center gap-1",
+              index < activeIndex && "opacity-70",
+              index > activeIndex && "opacity-40",
+              index === activeIndex && "font-semibold"
+            )}
+          >
+            {index < activeIndex && <Check className="h-3 w-3" />}
+            {stage.label}
+          </li>
+        ))}
+      </ol>
+
+      <div
+        role="progressbar"
+        aria-label="Preview loading progress"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent === null ? undefined : Math.round(percent)}
+        className="h-1.5 w-full overflow-hidden rounded-full bg-white/20"
+      >
+        <div
+          className={cn(
+            "h-full rounded-full bg-blue-500 transition-[width] duration-200",
+            percent === null && "w-1/3 animate-pulse"
+          )}
+          style={percent === null ? undefined : { width: `${percent}%` }}
+        />
+      </div>
+
+      <div className="flex justify-between gap-2 opacity-80">
+        <span>{detail}</span>
+        {status.stage === "download" && status.asset && (
+          <span className="truncate font-mono" title={status.asset.name}>
+            {status.asset.name}
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
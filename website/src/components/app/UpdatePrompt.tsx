@@ -0,0 +1,35 @@
+import { useState } from "react"
+import { RefreshCw, X } from "lucide-react"
+import { Button } from "@/components/ui/Button"
+import { useServiceWorker } from "@/hooks/useServiceWorker"
+
+/**
+ * Offers to reload when a new version of the site has been downloaded for offline use.
+ */
+export default function UpdatePrompt() {
+  const { updateAvailable, applyUpdate } = useServiceWorker()
+  const [dismissed, setDismissed] = useState(false)
+
+  if (!updateAvailable || dismissed) return null
+
+  return (
+    <div
+      role="status"
+      className="fixed right-4 bottom-4 z-50 flex items-center gap-3 rounded-lg border border-slate-200 bg-white px-4 py-3 text-sm shadow-lg dark:border-slate-800 dark:bg-slate-900"
+    >
+      <span className="text-slate-700 dark:text-slate-200">A new version is available.</span>
+      <Button size="sm" onClick={applyUpdate} className="gap-1.5">
+        <RefreshCw className="h-3.5 w-3.5" />
+        Reload
+      </Button>
+      <button
+        type="button"
+        aria-label="Dismiss"
+        className="text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+        onClick={() => setDismissed(true)}
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,126 @@
+import { useEffect, useRef, useState } from "react"
+import type { Terminal } from "xterm"
+import "xterm/css/xterm.css"
+import { RotateCcw } from "lucide-react"
+import { useTerminalPalette } from "@/hooks/useTheme"
+import { parseAsciicast, replayAsciicast, type Asciicast } from "@/lib/asciicast"
+
+interface AsciicastPlayerProps {
+  // URL of a .cast file, e.g. one downloaded from a live preview
+  src?: string
+  // already loaded recording, takes precedence over `src`
+  cast?: Asciicast
+  // the text of a .cast file, e.g. inlined in a markdown code block; takes precedence over `src`
+  content?: string
+  speed?: number
+  className?: string
+}
+
+/**
+ * Replays an asciicast v2 recording of a preview session without starting the .NET runtime.
+ */
+export default function AsciicastPlayer({
+  src,
+  cast,
+  content,
+  speed = 1,
+  className = "",
+}: AsciicastPlayerProps) {
+  const terminalRef = useRef<HTMLDivElement>(null)
+  const [recording, setRecording] = useState<Asciicast | null>(cast ?? null)
+  const [error, setError] = useState<string | null>(null)
+  const [run, setRun] = useState(0)
+  const palette = useTerminalPalette()
+
+  useEffect(() => {
+    if (cast) {
+      setRecording(cast)
+      return
+    }
+    if (content) {
+      try {
+        setRecording(parseAsciicast(content))
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load recording")
+      }
+      return
+    }
+    if (!src) return
+
+    const abortController = new AbortController()
+    fetch(src, { signal: abortController.signal })
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Failed to fetch ${src}: ${response.status} ${response.statusText}`)
+        }
+        return response.text()
+      })
+      .then((text) => setRecording(parseAsciicast(text)))
+      .catch((err) => {
+        if (err instanceof Error && err.name === "AbortError") return
+        setError(err instanceof Error ? err.message : "Failed to load recording")
+      })
+
+    return () => abortController.abort()
+  }, [src, cast, content])
+
+  useEffect(() => {
+    if (!recording || !terminalRef.current) return
+
+    const abortController = new AbortController()
+    let term: Terminal | null = null
+
+    async function play() {
+      const { Terminal } = await import("xterm")
+      if (abortController.signal.aborted || !terminalRef.current || !recording) return
+
+      term = new Terminal({
+        fontFamily: "'Cascadia Code', 'Fira Code', Consolas, 'Courier New', monospace",
+        fontSize: 14,
+        lineHeight: 1,
+        cols: recording.header.width,
+        rows: recording.header.height,
+        cursorInactiveStyle: "none",
+        disableStdin: true,
+        theme: palette.colors,
+        allowTransparency: true,
+        convertEol: true,
+      })
+      term.open(terminalRef.current)
+      await replayAsciicast(term, recording, { speed, signal: abortController.signal })
+    }
+
+    play().catch((err) => setError(err instanceof Error ? err.message : "Failed to replay recording"))
+
+    return () => {
+      abortController.abort()
+      term?.dispose()
+    }
+  }, [recording, speed, palette, run])
+
+  if (error) {
+    return (
+      <div className="rounded bg-red-50 p-4 text-red-600 dark:bg-red-900/20 dark:text-red-400">
+        Error: {error}
+      </div>
+    )
+  }
+
+  return (
+    <div
+      className={`relative overflow-auto rounded-xl border border-slate-200 p-3 dark:border-slate-800 ${className}`}
+      style={{ backgroundColor: palette.colors.background }}
+    >
+      <button
+        type="button"
+        title="Replay"
+        aria-label="Replay recording"
+        className="absolute top-2 right-2 z-10 rounded p-1 text-slate-400 transition-colors hover:text-slate-700 dark:hover:text-slate-200"
+        onClick={() => setRun((count) => count + 1)}
+      >
+        <RotateCcw className="h-4 w-4" />
+      </button>
+      <div ref={terminalRef} />
+    </div>
+  )
+}
@@ -1,5 +1,16 @@
+import { useEffect, useState } from "react"
+import { Link, useLocation } from "react-router"
+import { Columns3 } from "lucide-react"
 import CodeBlock from "@/components/ui/CodeBlock"
 import XTermPreview from "@/components/components/XTermPreview"
+import ParameterPlayground from "@/components/components/ParameterPlayground"
+import PreviewDiagnosticsDrawer from "@/components/components/PreviewDiagnosticsDrawer"
+import VdomInspector from "@/components/components/VdomInspector"
+import FocusOrderView from "@/components/components/FocusOrderView"
+import VirtualKeyBar from "@/components/components/VirtualKeyBar"
+import ResponsivePreview from "@/components/components/ResponsivePreview"
+import { getExampleHash, getExampleId } from "@/lib/examples"
+import { cn } from "@/lib/utils"
 import type { ComponentInfo } from "@/types/components/componentInfo"
 
 const examples = import.meta.glob("../../../../src/RazorConsole.Website/Components/*.razor", {
@@ -9,17 +20,118 @@ const examples = import.meta.glob("../../../../src/RazorConsole.Website/Componen
 }) as Record<string, string>
 
 export function ComponentPreview({ component }: { component: ComponentInfo }) {
-  const exampleFilename = component.examples[0]
+  const location = useLocation()
+  const [isMounted, setIsMounted] = useState(false)
+  const [readyCount, setReadyCount] = useState(0)
+  // renders the example at several widths side by side instead of a single preview
+  const [isResponsive, setIsResponsive] = useState(false)
+
+  useEffect(() => {
+    setIsMounted(true)
+  }, [])
+
+  // The active tab is driven by the URL fragment so every example can be deep-linked.
+  // The fragment is unknown during prerendering, so it is only read after hydration.
+  const activeHash = isMounted ? location.hash.replace(/^#/, "").toLowerCase() : ""
+  const exampleFilename =
+    component.examples.find((fileName) => getExampleHash(fileName) === activeHash) ??
+    component.examples[0]
+
+  if (!exampleFilename) return null
+
+  const exampleId = getExampleId(exampleFilename)
+  const handleReady = () => setReadyCount((count) => count + 1)
   const examplePath = `../../../../src/RazorConsole.Website/Components/${exampleFilename}`
   const code = examples[examplePath] || `Example not found: ${examplePath}`
 
   return (
     <div key={component.name} className="group relative my-4 flex flex-col space-y-4">
-      <XTermPreview elementId={component.name} className={`h-[300px]`} style={{ height: component.previewHeight }} />
+      {component.examples.length > 1 && (
+        <div
+          role="tablist"
+          aria-label={`${component.name} examples`}
+          className="flex flex-wrap gap-1 border-b border-slate-200 dark:border-slate-800"
+        >
+          {component.examples.map((fileName) => {
+            const isActive = fileName === exampleFilename
+            return (
+              <Link
+                key={fileName}
+                id={`tab-${getExampleHash(fileName)}`}
+                to={{ hash: getExampleHash(fileName) }}
+                replace
+                preventScrollReset
+                role="tab"
+                aria-selected={isActive}
+                aria-controls={`panel-${getExampleHash(fileName)}`}
+                className={cn(
+                  "-mb-px rounded-t-md border-b-2 px-3 py-2 font-mono text-xs font-medium transition-colors",
+                  isActive
+                    ? "border-blue-600 text-blue-600 dark:border-blue-400 dark:text-blue-400"
+                    : "border-transparent text-slate-500 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100"
+                )}
+              >
+                {fileName}
+              </Link>
+            )
+          })}
+        </div>
+      )}
+
+      <div
+        role={component.examples.length > 1 ? "tabpanel" : undefined}
+        id={`panel-${getExampleHash(exampleFilename)}`}
+        aria-labelledby={component.examples.length > 1 ? `tab-${getExampleHash(exampleFilename)}` : undefined}
+        className="flex flex-col space-y-4"
+      >
+        <div className="flex justify-end">
+          <button
+            type="button"
+            aria-pressed={isResponsive}
+            title="Render the example at several widths side by side"
+            className={cn(
+              "inline-flex items-center gap-1.5 rounded-md px-2 py-1 font-sans text-xs font-medium transition-colors",
+              isResponsive
+                ? "bg-blue-600 text-white dark:bg-blue-500"
+                : "text-slate-500 hover:bg-slate-100 hover:text-slate-900 dark:text-slate-400 dark:hover:bg-slate-800 dark:hover:text-slate-100"
+            )}
+            onClick={() => setIsResponsive((responsive) => !responsive)}
+          >
+            <Columns3 className="h-3.5 w-3.5" />
+            Responsive
+          </button>
+        </div>
+        {isResponsive ? (
+          <ResponsivePreview key={`responsive-${exampleId}`} exampleId={exampleId} />
+        ) : (
+          <>
+            <div className="flex flex-col gap-4 lg:flex-row">
+              <XTermPreview
+                key={exampleId}
+                elementId={exampleId}
+                className={`h-[300px] lg:min-w-0 lg:flex-1`}
+                style={{ height: component.previewHeight }}
+                onReady={handleReady}
+              />
+              {component.parameters && component.parameters.length > 0 && (
+                <ParameterPlayground
+                  elementId={exampleId}
+                  parameters={component.parameters}
+                  readyCount={readyCount}
+                />
+              )}
+            </div>
+            <VirtualKeyBar elementId={exampleId} />
+            <FocusOrderView key={`focus-${exampleId}`} elementId={exampleId} />
+            <PreviewDiagnosticsDrawer key={exampleId} elementId={exampleId} />
+            <VdomInspector key={`vdom-${exampleId}`} elementId={exampleId} />
+          </>
+        )}
 
-      <div className="flex flex-col space-y-4">
-        <div className="w-full [&_pre]:my-0 [&_pre]:max-h-[300px] [&_pre]:overflow-auto">
-          <CodeBlock code={code} language="razor" showCopy={true} />
+        <div className="flex flex-col space-y-4">
+          <div className="w-full [&_pre]:my-0 [&_pre]:max-h-[300px] [&_pre]:overflow-auto">
+            <CodeBlock code={code} language="razor" showCopy={true} />
+          </div>
         </div>
       </div>
     </div>
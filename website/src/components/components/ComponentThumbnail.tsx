@@ -0,0 +1,53 @@
+import { useEffect, useRef, useState } from "react"
+import type { ComponentInfo } from "@/types/components/componentInfo"
+
+type ThumbnailSource = "animated" | "still" | "none"
+
+interface Props {
+  component: ComponentInfo
+}
+
+/**
+ * The OG card of a component, animated for components that keep moving. Falls back to the still card when
+ * the animation is missing, and hides itself when there is no card at all, e.g. in dev before `gen:og` ran.
+ * Visitors who prefer reduced motion always get the still card.
+ */
+export default function ComponentThumbnail({ component }: Props) {
+  const [source, setSource] = useState<ThumbnailSource>(component.animated ? "animated" : "still")
+  const imageRef = useRef<HTMLImageElement>(null)
+
+  const name = component.name.toLowerCase()
+  const stillSrc = `${import.meta.env.BASE_URL}og/${name}.png`
+  const animatedSrc = `${import.meta.env.BASE_URL}og/${name}-animated.png`
+
+  const handleError = () => setSource((current) => (current === "animated" ? "still" : "none"))
+
+  useEffect(() => {
+    // the prerendered image may have failed before React attached onError
+    const image = imageRef.current
+    if (image?.complete && image.naturalWidth === 0) {
+      setSource((current) => (current === "animated" ? "still" : "none"))
+    }
+  }, [])
+
+  if (source === "none") return null
+
+  return (
+    <picture>
+      {source === "animated" && (
+        <source media="(prefers-reduced-motion: reduce)" srcSet={stillSrc} />
+      )}
+      <img
+        ref={imageRef}
+        src={source === "animated" ? animatedSrc : stillSrc}
+        alt=""
+        width={1200}
+        height={630}
+        loading="lazy"
+        decoding="async"
+        onError={handleError}
+        className="mb-4 aspect-[1200/630] h-auto w-full rounded-lg border border-slate-200 object-cover dark:border-slate-800"
+      />
+    </picture>
+  )
+}
@@ -0,0 +1,76 @@
+import { ListOrdered } from "lucide-react"
+import { useFocusOverlay } from "@/hooks/useFocusOverlay"
+import { highlightCells } from "@/lib/xtermConsole"
+import { cn } from "@/lib/utils"
+import type { CellSpan } from "@/types/components/vdomSnapshot"
+
+interface Props {
+  elementId: string
+  className?: string
+}
+
+const NO_SPANS: CellSpan[] = []
+
+/**
+ * The focusable elements of a preview in the order Tab moves through them, shown while its focus overlay is
+ * enabled. Hovering an entry highlights its cells in the terminal.
+ */
+export default function FocusOrderView({ elementId, className }: Props) {
+  const { enabled, regions } = useFocusOverlay(elementId)
+
+  if (!enabled) return null
+
+  const targets = regions?.targets ?? []
+
+  return (
+    <div
+      className={cn(
+        "rounded-lg border border-slate-200 bg-slate-50 font-sans text-xs dark:border-slate-800 dark:bg-slate-900/50",
+        className
+      )}
+    >
+      <div className="flex items-center gap-2 px-3 py-2 font-medium text-slate-600 dark:text-slate-400">
+        <ListOrdered className="h-3.5 w-3.5" />
+        Tab order
+        <span className="rounded-full bg-slate-200 px-1.5 text-[10px] tabular-nums dark:bg-slate-800">
+          {targets.length}
+        </span>
+      </div>
+
+      <ol
+        aria-label="Focusable elements in Tab order"
+        className="max-h-48 overflow-auto border-t border-slate-200 px-1 py-1 font-mono text-[11px] dark:border-slate-800"
+      >
+        {regions === null && <li className="px-2 py-1 text-slate-500">Waiting for the next frame…</li>}
+        {regions !== null && targets.length === 0 && (
+          <li className="px-2 py-1 text-slate-500">This preview has no focusable elements.</li>
+        )}
+        {targets.map((target) => {
+          const isFocused = target.key === regions?.focusKey
+          return (
+            <li
+              key={target.key}
+              aria-current={isFocused ? "true" : undefined}
+              className={cn(
+                "flex items-center gap-3 rounded px-2 py-1",
+                isFocused
+                  ? "bg-amber-100 text-amber-900 dark:bg-amber-500/20 dark:text-amber-200"
+                  : "text-slate-700 hover:bg-slate-200 dark:text-slate-300 dark:hover:bg-slate-800"
+              )}
+              onMouseEnter={() => highlightCells(elementId, target.spans)}
+              onMouseLeave={() => highlightCells(elementId, NO_SPANS)}
+            >
+              <span className="w-5 shrink-0 text-right text-slate-400 tabular-nums">{target.order + 1}</span>
+              <span className="shrink-0">&lt;{target.tagName}&gt;</span>
+              <span className="min-w-0 truncate text-slate-500">{target.key}</span>
+              {isFocused && <span className="ml-auto shrink-0 font-sans font-medium">focused</span>}
+              {!isFocused && target.spans.length === 0 && (
+                <span className="ml-auto shrink-0 font-sans text-slate-400">off screen</span>
+              )}
+            </li>
+          )
+        })}
+      </ol>
+    </div>
+  )
+}
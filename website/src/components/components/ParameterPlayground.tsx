@@ -0,0 +1,254 @@
+import { SlidersHorizontal, RotateCcw } from "lucide-react"
+import { useEffect, useMemo, useRef, useState } from "react"
+import { getComponentParameters, setComponentParameters } from "@/lib/xtermConsole"
+import type Parameter from "@/types/components/parameter"
+import type PlaygroundParameter from "@/types/components/playgroundParameter"
+import type { PlaygroundValue } from "@/types/components/playgroundParameter"
+
+type EditorKind = "boolean" | "number" | "color" | "enum" | "string"
+
+interface Knob {
+  name: string
+  type: string
+  kind: EditorKind
+  nullable: boolean
+  defaultValue: PlaygroundValue
+  options?: string[]
+}
+
+interface Props {
+  elementId: string
+  // parameter metadata from the ParametersTable, used to pick an editor for each parameter
+  parameters: Parameter[]
+  // incremented by the preview every time the component is (re-)registered
+  readyCount: number
+}
+
+const NUMBER_TYPES = new Set(["int", "long", "short", "float", "double", "decimal"])
+
+function getEditorKind(type: string, options: string[] | undefined): EditorKind | null {
+  if (options && options.length > 0) return "enum"
+
+  const baseType = type.replace(/\?$/, "")
+  if (baseType === "bool") return "boolean"
+  if (NUMBER_TYPES.has(baseType)) return "number"
+  if (baseType === "Color") return "color"
+  if (baseType === "string") return "string"
+  return null
+}
+
+function toKnobs(parameters: Parameter[], described: PlaygroundParameter[]): Knob[] {
+  return described.flatMap((editable) => {
+    const metadata = parameters.find((p) => p.name === editable.name)
+    if (!metadata) return []
+
+    const kind = getEditorKind(metadata.type, editable.options)
+    if (!kind) return []
+
+    return [
+      {
+        name: editable.name,
+        type: metadata.type,
+        kind,
+        nullable: metadata.type.endsWith("?"),
+        defaultValue: editable.value,
+        options: editable.options,
+      },
+    ]
+  })
+}
+
+const inputClassName =
+  "w-full rounded-md border border-slate-200 bg-white px-2 py-1 text-sm text-slate-700 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-200 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200 dark:focus:border-blue-400 dark:focus:ring-blue-500/40"
+
+function KnobEditor({
+  knob,
+  value,
+  onChange,
+}: {
+  knob: Knob
+  value: PlaygroundValue
+  onChange: (value: PlaygroundValue) => void
+}) {
+  switch (knob.kind) {
+    case "boolean":
+      return (
+        <input
+          type="checkbox"
+          className="h-4 w-4 accent-blue-600"
+          checked={value === true}
+          onChange={(e) => onChange(e.target.checked)}
+        />
+      )
+    case "number":
+      return (
+        <input
+          type="number"
+          className={inputClassName}
+          value={typeof value === "number" ? value : ""}
+          placeholder={knob.nullable ? "null" : undefined}
+          onChange={(e) => {
+            if (e.target.value === "") {
+              if (knob.nullable) onChange(null)
+              return
+            }
+            const parsed = Number(e.target.value)
+            if (!Number.isNaN(parsed)) onChange(parsed)
+          }}
+        />
+      )
+    case "color":
+      return (
+        <div className="flex items-center gap-2">
+          <input
+            type="color"
+            className="h-7 w-10 cursor-pointer rounded border border-slate-200 bg-transparent dark:border-slate-700"
+            value={typeof value === "string" ? value.toLowerCase() : "#000000"}
+            onChange={(e) => onChange(e.target.value)}
+          />
+          <code className="font-mono text-xs text-slate-500 dark:text-slate-400">
+            {typeof value === "string" ? value.toLowerCase() : "null"}
+          </code>
+          {knob.nullable && value !== null && (
+            <button
+              type="button"
+              className="ml-auto text-xs text-slate-500 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100"
+              onClick={() => onChange(null)}
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      )
+    case "enum":
+      return (
+        <select
+          className={inputClassName}
+          value={typeof value === "string" ? value : ""}
+          onChange={(e) => onChange(e.target.value === "" ? null : e.target.value)}
+        >
+          {(knob.nullable || value === null) && <option value="">null</option>}
+          {knob.options?.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      )
+    case "string":
+      return (
+        <input
+          type="text"
+          className={inputClassName}
+          value={typeof value === "string" ? value : ""}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      )
+  }
+}
+
+export default function ParameterPlayground({ elementId, parameters, readyCount }: Props) {
+  const [described, setDescribed] = useState<PlaygroundParameter[]>([])
+  const [values, setValues] = useState<Record<string, PlaygroundValue>>({})
+  const [error, setError] = useState<string | null>(null)
+  // values changed by the user, re-applied whenever the preview is registered again
+  const editedRef = useRef<Record<string, PlaygroundValue>>({})
+
+  useEffect(() => {
+    editedRef.current = {}
+    setDescribed([])
+    setValues({})
+  }, [elementId])
+
+  useEffect(() => {
+    if (readyCount === 0) return
+
+    let cancelled = false
+
+    async function describe() {
+      try {
+        const editable = await getComponentParameters(elementId)
+        if (cancelled) return
+
+        setDescribed(editable)
+        setValues({
+          ...Object.fromEntries(editable.map((p) => [p.name, p.value])),
+          ...editedRef.current,
+        })
+
+        if (Object.keys(editedRef.current).length > 0) {
+          await setComponentParameters(elementId, editedRef.current)
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load parameters")
+        }
+      }
+    }
+
+    describe()
+
+    return () => {
+      cancelled = true
+    }
+  }, [elementId, readyCount])
+
+  const knobs = useMemo(() => toKnobs(parameters, described), [parameters, described])
+
+  const updateValue = (name: string, value: PlaygroundValue) => {
+    editedRef.current = { ...editedRef.current, [name]: value }
+    setValues((current) => ({ ...current, [name]: value }))
+    setError(null)
+    setComponentParameters(elementId, { [name]: value }).catch((err) => {
+      setError(err instanceof Error ? err.message : `Failed to set ${name}`)
+    })
+  }
+
+  const reset = () => {
+    const defaults = Object.fromEntries(knobs.map((knob) => [knob.name, knob.defaultValue]))
+    editedRef.current = {}
+    setValues(defaults)
+    setError(null)
+    setComponentParameters(elementId, defaults).catch((err) => {
+      setError(err instanceof Error ? err.message : "Failed to reset parameters")
+    })
+  }
+
+  if (knobs.length === 0) return null
+
+  return (
+    <aside className="flex flex-col gap-3 rounded-xl border border-slate-200 bg-white p-4 shadow-sm lg:w-72 lg:shrink-0 dark:border-slate-800 dark:bg-slate-900">
+      <div className="flex items-center gap-2">
+        <SlidersHorizontal className="h-4 w-4 text-blue-600 dark:text-blue-400" />
+        <h4 className="text-sm font-semibold text-slate-900 dark:text-slate-100">Playground</h4>
+        <button
+          type="button"
+          title="Reset to example defaults"
+          className="ml-auto inline-flex items-center gap-1 text-xs text-slate-500 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100"
+          onClick={reset}
+        >
+          <RotateCcw className="h-3 w-3" />
+          Reset
+        </button>
+      </div>
+
+      {knobs.map((knob) => (
+        <label key={knob.name} className="flex flex-col gap-1">
+          <span className="flex items-baseline justify-between gap-2">
+            <code className="font-mono text-xs font-medium text-slate-900 dark:text-slate-100">
+              {knob.name}
+            </code>
+            <span className="font-mono text-[10px] text-slate-400">{knob.type}</span>
+          </span>
+          <KnobEditor
+            knob={knob}
+            value={values[knob.name] ?? null}
+            onChange={(value) => updateValue(knob.name, value)}
+          />
+        </label>
+      ))}
+
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </aside>
+  )
+}
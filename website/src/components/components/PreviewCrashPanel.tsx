@@ -0,0 +1,54 @@
+import { RotateCcw, TriangleAlert } from "lucide-react"
+import type { ComponentError } from "@/lib/razorConsoleWorkerProtocol"
+import { cn } from "@/lib/utils"
+
+interface Props {
+  elementId: string
+  error: ComponentError
+  onRestart: () => void
+  className?: string
+}
+
+/**
+ * Replaces the frozen output of a preview whose component threw, with the exception and a way to start it again.
+ */
+export default function PreviewCrashPanel({ elementId, error, onRestart, className }: Props) {
+  return (
+    <div
+      role="alert"
+      className={cn(
+        "flex flex-col gap-3 overflow-auto bg-red-50/95 p-4 font-sans text-sm text-red-700 dark:bg-red-950/90 dark:text-red-300",
+        className
+      )}
+    >
+      <div className="flex items-start gap-2">
+        <TriangleAlert className="mt-0.5 h-4 w-4 shrink-0" />
+        <div className="min-w-0 flex-1">
+          <div className="font-semibold">
+            <span className="font-mono">{elementId}</span> crashed
+          </div>
+          <div className="mt-1 break-words">
+            <span className="font-mono text-xs">{error.exceptionType}</span>: {error.message}
+          </div>
+        </div>
+        <button
+          type="button"
+          className="inline-flex shrink-0 items-center gap-1 rounded border border-red-300 px-2 py-1 text-xs font-medium hover:bg-red-100 dark:border-red-800 dark:hover:bg-red-900/40"
+          onClick={onRestart}
+        >
+          <RotateCcw className="h-3 w-3" />
+          Restart preview
+        </button>
+      </div>
+
+      {error.stackTrace && (
+        <details className="text-xs">
+          <summary className="cursor-pointer select-none">Stack trace</summary>
+          <pre className="mt-2 overflow-x-auto whitespace-pre font-mono text-[11px] leading-snug opacity-80">
+            {error.stackTrace}
+          </pre>
+        </details>
+      )}
+    </div>
+  )
+}
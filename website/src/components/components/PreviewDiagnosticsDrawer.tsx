@@ -0,0 +1,166 @@
+import { useEffect, useRef, useState } from "react"
+import { ChevronRight, Trash2 } from "lucide-react"
+import { usePreviewDiagnostics } from "@/hooks/usePreviewDiagnostics"
+import { clearDiagnostics, type PreviewDiagnosticEntry } from "@/lib/previewDiagnostics"
+import { cn } from "@/lib/utils"
+
+interface Props {
+  elementId: string
+  className?: string
+}
+
+type Filter = "all" | PreviewDiagnosticEntry["kind"]
+
+const FILTERS: { id: Filter; label: string }[] = [
+  { id: "all", label: "All" },
+  { id: "stdout", label: "Stdout" },
+  { id: "key", label: "Keys" },
+  { id: "resize", label: "Resize" },
+  { id: "render", label: "Renders" },
+]
+
+const KIND_LABELS: Record<PreviewDiagnosticEntry["kind"], string> = {
+  stdout: "out",
+  key: "key",
+  resize: "size",
+  render: "frame",
+}
+
+function describe(entry: PreviewDiagnosticEntry): string {
+  switch (entry.kind) {
+    case "stdout":
+      return entry.line
+    case "key": {
+      // JSON escaping makes control characters such as "\r" and "\u001b" readable
+      const modifiers = entry.modifiers === "None" || entry.modifiers === "0" ? "" : ` + ${entry.modifiers}`
+      return `${entry.domKey} → ConsoleKey.${entry.consoleKey}${modifiers}, KeyChar ${JSON.stringify(entry.keyChar)}`
+    }
+    case "resize":
+      return `${entry.cols} × ${entry.rows}`
+    case "render":
+      return `${entry.durationMs.toFixed(1)} ms, ${(entry.length / 1024).toFixed(1)} KB of ANSI output`
+  }
+}
+
+function getRenderStats(entries: readonly PreviewDiagnosticEntry[]) {
+  const durations = entries.flatMap((entry) => (entry.kind === "render" ? [entry.durationMs] : []))
+  if (durations.length === 0) return null
+  return {
+    frames: durations.length,
+    last: durations[durations.length - 1],
+    average: durations.reduce((sum, duration) => sum + duration, 0) / durations.length,
+    max: Math.max(...durations),
+  }
+}
+
+/**
+ * Collapsible log under a preview with the .NET stdout of its renderer, the ConsoleKey every forwarded key
+ * was translated to, resize events and how long each frame took to render.
+ */
+export default function PreviewDiagnosticsDrawer({ elementId, className }: Props) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [filter, setFilter] = useState<Filter>("all")
+  const entries = usePreviewDiagnostics(elementId)
+  const listRef = useRef<HTMLOListElement>(null)
+  // keeps the newest entry in view unless the reader scrolled up to look at older ones
+  const stickToBottomRef = useRef(true)
+
+  const visible = filter === "all" ? entries : entries.filter((entry) => entry.kind === filter)
+  const stats = getRenderStats(entries)
+  const startTime = entries[0]?.time ?? 0
+
+  useEffect(() => {
+    const list = listRef.current
+    if (list && stickToBottomRef.current) {
+      list.scrollTop = list.scrollHeight
+    }
+  }, [visible, isOpen])
+
+  const handleScroll = () => {
+    const list = listRef.current
+    if (!list) return
+    stickToBottomRef.current = list.scrollHeight - list.scrollTop - list.clientHeight < 8
+  }
+
+  return (
+    <div
+      className={cn(
+        "rounded-lg border border-slate-200 bg-slate-50 font-sans text-xs dark:border-slate-800 dark:bg-slate-900/50",
+        className
+      )}
+    >
+      <button
+        type="button"
+        aria-expanded={isOpen}
+        aria-controls={`diagnostics-${elementId}`}
+        className="flex w-full items-center gap-2 px-3 py-2 text-left font-medium text-slate-600 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100"
+        onClick={() => setIsOpen((open) => !open)}
+      >
+        <ChevronRight className={cn("h-3.5 w-3.5 transition-transform", isOpen && "rotate-90")} />
+        Diagnostics
+        <span className="rounded-full bg-slate-200 px-1.5 text-[10px] tabular-nums dark:bg-slate-800">
+          {entries.length}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div id={`diagnostics-${elementId}`} className="border-t border-slate-200 dark:border-slate-800">
+          <div className="flex flex-wrap items-center gap-1 px-3 py-2">
+            {FILTERS.map(({ id, label }) => (
+              <button
+                key={id}
+                type="button"
+                aria-pressed={filter === id}
+                className={cn(
+                  "rounded px-2 py-0.5 transition-colors",
+                  filter === id
+                    ? "bg-blue-600 text-white dark:bg-blue-500"
+                    : "text-slate-600 hover:bg-slate-200 dark:text-slate-400 dark:hover:bg-slate-800"
+                )}
+                onClick={() => setFilter(id)}
+              >
+                {label}
+              </button>
+            ))}
+            {stats && (
+              <span className="ml-auto text-slate-500 tabular-nums">
+                {stats.frames} frames · last {stats.last.toFixed(1)} ms · avg {stats.average.toFixed(1)} ms · max{" "}
+                {stats.max.toFixed(1)} ms
+              </span>
+            )}
+            <button
+              type="button"
+              title="Clear diagnostics"
+              aria-label="Clear diagnostics"
+              className={cn(
+                "rounded p-1 text-slate-400 hover:text-slate-700 dark:hover:text-slate-200",
+                !stats && "ml-auto"
+              )}
+              onClick={() => clearDiagnostics(elementId)}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </button>
+          </div>
+
+          <ol
+            ref={listRef}
+            onScroll={handleScroll}
+            aria-live="off"
+            className="max-h-64 overflow-auto border-t border-slate-200 px-3 py-2 font-mono text-[11px] leading-relaxed dark:border-slate-800"
+          >
+            {visible.length === 0 && <li className="text-slate-500">Nothing recorded yet.</li>}
+            {visible.map((entry, index) => (
+              <li key={`${entry.time}-${index}`} className="flex gap-3 whitespace-pre-wrap break-all">
+                <span className="shrink-0 text-slate-400 tabular-nums">
+                  +{((entry.time - startTime) / 1000).toFixed(3)}s
+                </span>
+                <span className="w-10 shrink-0 text-blue-600 dark:text-blue-400">{KIND_LABELS[entry.kind]}</span>
+                <span className="min-w-0 text-slate-700 dark:text-slate-300">{describe(entry)}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+import { useScreenReaderText } from "@/hooks/useScreenReaderText"
+
+interface Props {
+  elementId: string
+  // id of the text alternative, referenced by aria-describedby of the preview
+  descriptionId: string
+  // state of the preview, e.g. that it is loading or crashed, read before the screen
+  status: string
+}
+
+/**
+ * Visually hidden text of a preview for screen readers: a description of its state and current screen, and a
+ * live region that reads out the lines a frame changed while the terminal has keyboard focus.
+ */
+export default function PreviewScreenReaderText({ elementId, descriptionId, status }: Props) {
+  const { lines, announcement } = useScreenReaderText(elementId)
+  const screen = lines.map((line) => line.trimEnd()).filter((line) => line.trim() !== "")
+
+  return (
+    <>
+      <div id={descriptionId} className="sr-only">
+        <p>{status}</p>
+        {screen.length > 0 && (
+          <>
+            <p>Current screen:</p>
+            <pre>{screen.join("\n")}</pre>
+          </>
+        )}
+      </div>
+      <div aria-live="polite" aria-atomic className="sr-only">
+        {announcement}
+      </div>
+    </>
+  )
+}
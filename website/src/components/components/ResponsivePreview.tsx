@@ -0,0 +1,30 @@
+import XTermPreview from "@/components/components/XTermPreview"
+import { RESPONSIVE_COLUMNS, RESPONSIVE_ROWS, getSizedInstanceId } from "@/lib/terminalSize"
+import { cn } from "@/lib/utils"
+
+interface Props {
+  exampleId: string
+  className?: string
+}
+
+/**
+ * Renders an example at several widths side by side, each with its own renderer, to compare how layouts
+ * such as `FlexBox`, `Columns` and `Table` wrap.
+ */
+export default function ResponsivePreview({ exampleId, className }: Props) {
+  return (
+    <div className={cn("flex items-start gap-4 overflow-x-auto pb-2", className)}>
+      {RESPONSIVE_COLUMNS.map((cols) => {
+        const instanceId = getSizedInstanceId(exampleId, cols)
+        return (
+          <XTermPreview
+            key={instanceId}
+            elementId={instanceId}
+            className="shrink-0"
+            initialSize={{ cols, rows: RESPONSIVE_ROWS }}
+          />
+        )
+      })}
+    </div>
+  )
+}
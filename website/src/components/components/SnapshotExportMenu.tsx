@@ -0,0 +1,144 @@
+import { useEffect, useRef, useState } from "react"
+import { Check, Copy, Download, ImageDown } from "lucide-react"
+import { getTerminalInstance } from "@/lib/xtermConsole"
+import {
+  SNAPSHOT_FORMATS,
+  copySnapshot,
+  createSnapshot,
+  downloadSnapshot,
+  getSnapshotFileName,
+  type SnapshotFormat,
+} from "@/lib/snapshotExport"
+import type { TerminalColors } from "@/lib/terminalTheme"
+
+interface SnapshotExportMenuProps {
+  elementId: string
+  // palette the preview is drawn with, so exports look like the screen
+  colors: TerminalColors
+  disabled?: boolean
+}
+
+type Action = "download" | "copy"
+
+const ACTION_CLASS =
+  "rounded p-1 text-slate-500 hover:bg-slate-200 hover:text-slate-900 dark:hover:bg-slate-700 dark:hover:text-slate-100"
+
+/**
+ * Title bar menu that saves or copies the current screen of a preview as SVG, PNG, standalone HTML,
+ * ANSI or plain text.
+ */
+export default function SnapshotExportMenu({
+  elementId,
+  colors,
+  disabled,
+}: SnapshotExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // confirms a copy next to the format that was copied
+  const [copied, setCopied] = useState<SnapshotFormat | null>(null)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    const closeOnOutsideClick = (event: PointerEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setIsOpen(false)
+    }
+    const closeOnEscape = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setIsOpen(false)
+    }
+    document.addEventListener("pointerdown", closeOnOutsideClick)
+    document.addEventListener("keydown", closeOnEscape)
+    return () => {
+      document.removeEventListener("pointerdown", closeOnOutsideClick)
+      document.removeEventListener("keydown", closeOnEscape)
+    }
+  }, [isOpen])
+
+  useEffect(() => {
+    if (copied === null) return
+    const timer = window.setTimeout(() => setCopied(null), 1500)
+    return () => clearTimeout(timer)
+  }, [copied])
+
+  const run = async (format: SnapshotFormat, action: Action) => {
+    const term = getTerminalInstance(elementId)
+    if (!term) return
+
+    setError(null)
+    try {
+      const blob = await createSnapshot(term, colors, format, elementId)
+      if (action === "download") {
+        downloadSnapshot(blob, getSnapshotFileName(elementId, format))
+        setIsOpen(false)
+      } else {
+        await copySnapshot(blob, format)
+        setCopied(format)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  return (
+    <div ref={menuRef} className="relative flex">
+      <button
+        type="button"
+        title="Export the current screen"
+        aria-label="Export the current screen"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        className="text-slate-400 transition-colors hover:text-slate-700 disabled:opacity-40 dark:hover:text-slate-200"
+        disabled={disabled}
+        onClick={() => setIsOpen((open) => !open)}
+      >
+        <ImageDown className="h-3.5 w-3.5" />
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          aria-label="Export formats"
+          className="absolute top-full right-0 z-30 mt-2 w-64 rounded-lg border border-slate-200 bg-white p-1 font-sans text-xs shadow-lg dark:border-slate-700 dark:bg-slate-900"
+        >
+          {SNAPSHOT_FORMATS.map(({ id, label, description }) => (
+            <div
+              key={id}
+              className="flex items-center gap-2 rounded px-2 py-1.5 hover:bg-slate-100 dark:hover:bg-slate-800"
+            >
+              <div className="min-w-0 flex-1">
+                <div className="font-medium text-slate-800 dark:text-slate-100">{label}</div>
+                <div className="truncate text-slate-500">{description}</div>
+              </div>
+              <button
+                type="button"
+                role="menuitem"
+                title={`Copy as ${label}`}
+                aria-label={`Copy as ${label}`}
+                className={ACTION_CLASS}
+                onClick={() => void run(id, "copy")}
+              >
+                {copied === id ? (
+                  <Check className="h-3.5 w-3.5 text-green-600" />
+                ) : (
+                  <Copy className="h-3.5 w-3.5" />
+                )}
+              </button>
+              <button
+                type="button"
+                role="menuitem"
+                title={`Download as ${label}`}
+                aria-label={`Download as ${label}`}
+                className={ACTION_CLASS}
+                onClick={() => void run(id, "download")}
+              >
+                <Download className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          ))}
+          {error && <p className="px-2 py-1.5 text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,39 @@
+import { useTheme } from "@/hooks/useTheme"
+import { isTerminalPaletteSelection, TERMINAL_PALETTES } from "@/lib/terminalTheme"
+import { cn } from "@/lib/utils"
+
+interface TerminalPaletteSelectProps {
+  disabled?: boolean
+  className?: string
+}
+
+/**
+ * Picks the color palette of all terminal previews. The choice is stored with the site theme.
+ */
+export default function TerminalPaletteSelect({ disabled, className }: TerminalPaletteSelectProps) {
+  const terminalPalette = useTheme((state) => state.terminalPalette)
+  const setTerminalPalette = useTheme((state) => state.setTerminalPalette)
+
+  return (
+    <select
+      aria-label="Terminal color palette"
+      title="Terminal color palette"
+      className={cn(
+        "rounded border border-transparent bg-transparent font-sans text-xs text-slate-500 hover:border-slate-300 focus:border-slate-400 focus:outline-none disabled:opacity-40 dark:text-slate-400 dark:hover:border-slate-600",
+        className
+      )}
+      disabled={disabled}
+      value={terminalPalette}
+      onChange={(e) => {
+        if (isTerminalPaletteSelection(e.target.value)) setTerminalPalette(e.target.value)
+      }}
+    >
+      <option value="auto">Auto</option>
+      {Object.values(TERMINAL_PALETTES).map((palette) => (
+        <option key={palette.id} value={palette.id}>
+          {palette.label}
+        </option>
+      ))}
+    </select>
+  )
+}
@@ -0,0 +1,135 @@
+import { useState } from "react"
+import {
+  SIZE_PRESETS,
+  clampSize,
+  formatSize,
+  isPreset,
+  type TerminalSize,
+} from "@/lib/terminalSize"
+import { cn } from "@/lib/utils"
+
+interface TerminalSizeControlProps {
+  // null fits the terminal to the preview
+  size: TerminalSize | null
+  // the size the terminal currently has, shown next to the picker
+  current: TerminalSize | null
+  onChange: (size: TerminalSize | null) => void
+  disabled?: boolean
+  className?: string
+}
+
+const SELECT_CLASS =
+  "rounded border border-transparent bg-transparent font-sans text-xs text-slate-500 hover:border-slate-300 focus:border-slate-400 focus:outline-none disabled:opacity-40 dark:text-slate-400 dark:hover:border-slate-600"
+
+const INPUT_CLASS =
+  "w-10 rounded border border-slate-300 bg-transparent px-1 text-center font-mono text-xs text-slate-600 tabular-nums focus:border-slate-400 focus:outline-none dark:border-slate-600 dark:text-slate-300"
+
+// Applied on blur or Enter, so intermediate values such as the "1" of "120" are not clamped while typing
+function SizeInput({
+  label,
+  value,
+  disabled,
+  onCommit,
+}: {
+  label: string
+  value: number
+  disabled?: boolean
+  onCommit: (value: number) => void
+}) {
+  return (
+    <input
+      // remounts with the new value once the size changed
+      key={value}
+      type="number"
+      aria-label={label}
+      className={INPUT_CLASS}
+      disabled={disabled}
+      defaultValue={value}
+      onBlur={(e) => {
+        const next = Number(e.target.value)
+        if (e.target.value && Number.isFinite(next) && next !== value) onCommit(next)
+        // shows the current value again when the entry was invalid or clamped back to it
+        e.target.value = String(value)
+      }}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") e.currentTarget.blur()
+      }}
+    />
+  )
+}
+
+/**
+ * Picks the size of a preview terminal: fit to the preview, one of the presets or a custom number of
+ * columns and rows. Shows the current size either way.
+ */
+export default function TerminalSizeControl({
+  size,
+  current,
+  onChange,
+  disabled,
+  className,
+}: TerminalSizeControlProps) {
+  // stays on "custom" while typing, even when the value happens to match a preset
+  const [isCustom, setIsCustom] = useState(size !== null && !isPreset(size))
+  const mode = size === null ? "fit" : isCustom || !isPreset(size) ? "custom" : formatSize(size)
+
+  const setCustom = (change: Partial<TerminalSize>) => {
+    const base = size ?? current ?? SIZE_PRESETS[1]
+    onChange(clampSize({ ...base, ...change }))
+  }
+
+  return (
+    <div className={cn("flex items-center gap-1", className)}>
+      <span
+        aria-live="polite"
+        title="Current terminal size (columns × rows)"
+        className="font-mono text-xs text-slate-500 tabular-nums select-none dark:text-slate-400"
+      >
+        {current ? formatSize(current) : "–"}
+      </span>
+      <select
+        aria-label="Terminal size"
+        title="Terminal size"
+        className={SELECT_CLASS}
+        disabled={disabled}
+        value={mode}
+        onChange={(e) => {
+          const value = e.target.value
+          setIsCustom(value === "custom")
+          if (value === "fit") {
+            onChange(null)
+          } else if (value === "custom") {
+            onChange(clampSize(size ?? current ?? SIZE_PRESETS[1]))
+          } else {
+            onChange(SIZE_PRESETS.find((preset) => formatSize(preset) === value) ?? null)
+          }
+        }}
+      >
+        <option value="fit">Fit</option>
+        {SIZE_PRESETS.map((preset) => (
+          <option key={formatSize(preset)} value={formatSize(preset)}>
+            {formatSize(preset)}
+          </option>
+        ))}
+        <option value="custom">Custom</option>
+      </select>
+      {mode === "custom" && size && (
+        <>
+          <SizeInput
+            label="Columns"
+            value={size.cols}
+            disabled={disabled}
+            onCommit={(cols) => setCustom({ cols })}
+          />
+          <span className="text-xs text-slate-400">×</span>
+          <SizeInput
+            label="Rows"
+            value={size.rows}
+            disabled={disabled}
+            onCommit={(rows) => setCustom({ rows })}
+          />
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,292 @@
+import { useEffect, useMemo, useRef, useState } from "react"
+import { ChevronRight, RefreshCw } from "lucide-react"
+import { usePreviewDiagnostics } from "@/hooks/usePreviewDiagnostics"
+import { getVdomSnapshot, highlightCells } from "@/lib/xtermConsole"
+import { cn } from "@/lib/utils"
+import type VdomSnapshot from "@/types/components/vdomSnapshot"
+import type { CellSpan, VdomNode } from "@/types/components/vdomSnapshot"
+
+interface Props {
+  elementId: string
+  className?: string
+}
+
+// frames arrive in bursts while a component animates; the inspector catches up at most this often
+const REFRESH_INTERVAL_MS = 300
+// nodes up to this depth start expanded
+const EXPANDED_DEPTH = 3
+const NO_SPANS: CellSpan[] = []
+
+function findNode(node: VdomNode, path: string): VdomNode | null {
+  if (node.path === path) return node
+  if (!path.startsWith(`${node.path}.`)) return null
+  for (const child of node.children) {
+    const found = findNode(child, path)
+    if (found) return found
+  }
+  return null
+}
+
+function describeNode(node: VdomNode): string {
+  switch (node.kind) {
+    case "element":
+      return node.key ? `<${node.tagName} key="${node.key}">` : `<${node.tagName}>`
+    case "text":
+      return JSON.stringify(node.text ?? "")
+    default:
+      return node.kind
+  }
+}
+
+function TreeNode({
+  node,
+  depth,
+  selectedPath,
+  onSelect,
+}: {
+  node: VdomNode
+  depth: number
+  selectedPath: string | null
+  onSelect: (path: string) => void
+}) {
+  const [isExpanded, setIsExpanded] = useState(depth < EXPANDED_DEPTH)
+  const hasChildren = node.children.length > 0
+  const isSelected = node.path === selectedPath
+
+  return (
+    <li role="treeitem" aria-expanded={hasChildren ? isExpanded : undefined} aria-selected={isSelected}>
+      <div
+        className={cn(
+          "flex items-center gap-1 rounded px-1",
+          isSelected ? "bg-blue-600 text-white dark:bg-blue-500" : "hover:bg-slate-200 dark:hover:bg-slate-800"
+        )}
+        style={{ paddingLeft: `${depth * 12 + 4}px` }}
+      >
+        <button
+          type="button"
+          aria-label={isExpanded ? "Collapse" : "Expand"}
+          className={cn("shrink-0", !hasChildren && "invisible")}
+          onClick={() => setIsExpanded((expanded) => !expanded)}
+        >
+          <ChevronRight className={cn("h-3 w-3 transition-transform", isExpanded && "rotate-90")} />
+        </button>
+        <button
+          type="button"
+          className={cn("min-w-0 truncate text-left", node.kind !== "element" && "italic opacity-80")}
+          onClick={() => onSelect(node.path)}
+        >
+          {describeNode(node)}
+        </button>
+      </div>
+      {hasChildren && isExpanded && (
+        <ul role="group">
+          {node.children.map((child) => (
+            <TreeNode
+              key={child.path}
+              node={child}
+              depth={depth + 1}
+              selectedPath={selectedPath}
+              onSelect={onSelect}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  )
+}
+
+function NodeDetails({ node, cellCount }: { node: VdomNode; cellCount: number | null }) {
+  const attributes = Object.entries(node.attributes)
+
+  return (
+    <dl className="grid grid-cols-[max-content_1fr] gap-x-3 gap-y-1">
+      <dt className="text-slate-500">path</dt>
+      <dd>{node.path}</dd>
+      <dt className="text-slate-500">kind</dt>
+      <dd>{node.kind}</dd>
+      {node.tagName && (
+        <>
+          <dt className="text-slate-500">tag</dt>
+          <dd>{node.tagName}</dd>
+        </>
+      )}
+      {node.key && (
+        <>
+          <dt className="text-slate-500">key</dt>
+          <dd>{node.key}</dd>
+        </>
+      )}
+      {node.text !== undefined && (
+        <>
+          <dt className="text-slate-500">text</dt>
+          <dd className="break-all">{JSON.stringify(node.text)}</dd>
+        </>
+      )}
+      <dt className="text-slate-500">events</dt>
+      <dd>{node.events.length > 0 ? node.events.join(", ") : "none"}</dd>
+      {cellCount !== null && (
+        <>
+          <dt className="text-slate-500">cells</dt>
+          <dd>{cellCount}</dd>
+        </>
+      )}
+      <dt className="col-span-2 mt-2 text-slate-500">attributes</dt>
+      {attributes.length === 0 && <dd className="col-span-2">none</dd>}
+      {attributes.map(([name, value]) => (
+        <div key={name} className="contents">
+          <dt className="pl-2">{name}</dt>
+          <dd className="break-all">{value === null ? "null" : JSON.stringify(value)}</dd>
+        </div>
+      ))}
+    </dl>
+  )
+}
+
+/**
+ * Collapsible inspector under a preview with the virtual DOM of its recent frames. Selecting a node of the
+ * latest frame highlights the cells it occupies in the terminal.
+ */
+export default function VdomInspector({ elementId, className }: Props) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [snapshot, setSnapshot] = useState<VdomSnapshot | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  // null follows the latest frame
+  const [pinnedFrame, setPinnedFrame] = useState<number | null>(null)
+  const [selectedPath, setSelectedPath] = useState<string | null>(null)
+  const [refreshCount, setRefreshCount] = useState(0)
+  const diagnostics = usePreviewDiagnostics(elementId)
+  // every frame written to the terminal is recorded as a "render" diagnostic
+  const renderCount = useMemo(() => diagnostics.filter((entry) => entry.kind === "render").length, [diagnostics])
+  const lastFetchRef = useRef(0)
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    let cancelled = false
+    const delay = Math.max(0, lastFetchRef.current + REFRESH_INTERVAL_MS - performance.now())
+    const timer = window.setTimeout(() => {
+      lastFetchRef.current = performance.now()
+      getVdomSnapshot(elementId).then(
+        (next) => {
+          if (cancelled) return
+          setSnapshot(next)
+          setError(null)
+        },
+        (err) => {
+          if (!cancelled) setError(err instanceof Error ? err.message : String(err))
+        }
+      )
+    }, delay)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [elementId, isOpen, renderCount, refreshCount])
+
+  const frames = snapshot?.frames ?? []
+  const latestFrame = frames.at(-1) ?? null
+  const frame = frames.find((candidate) => candidate.number === pinnedFrame) ?? latestFrame
+  const isLatest = frame !== null && frame === latestFrame
+  const selectedNode = frame && selectedPath ? findNode(frame.root, selectedPath) : null
+  // cells are only known for the frame currently on screen
+  const selectedSpans = isLatest && selectedPath ? (snapshot?.regions[selectedPath] ?? NO_SPANS) : null
+
+  useEffect(() => {
+    highlightCells(elementId, isOpen && selectedSpans ? selectedSpans : NO_SPANS)
+  }, [elementId, isOpen, selectedSpans])
+
+  useEffect(() => () => highlightCells(elementId, NO_SPANS), [elementId])
+
+  return (
+    <div
+      className={cn(
+        "rounded-lg border border-slate-200 bg-slate-50 font-sans text-xs dark:border-slate-800 dark:bg-slate-900/50",
+        className
+      )}
+    >
+      <button
+        type="button"
+        aria-expanded={isOpen}
+        aria-controls={`vdom-inspector-${elementId}`}
+        className="flex w-full items-center gap-2 px-3 py-2 text-left font-medium text-slate-600 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100"
+        onClick={() => setIsOpen((open) => !open)}
+      >
+        <ChevronRight className={cn("h-3.5 w-3.5 transition-transform", isOpen && "rotate-90")} />
+        VDOM inspector
+      </button>
+
+      {isOpen && (
+        <div id={`vdom-inspector-${elementId}`} className="border-t border-slate-200 dark:border-slate-800">
+          <div className="flex flex-wrap items-center gap-1 px-3 py-2">
+            <span className="mr-1 text-slate-500">Frames</span>
+            {frames.map((candidate) => (
+              <button
+                key={candidate.number}
+                type="button"
+                title={new Date(candidate.timestamp).toLocaleTimeString()}
+                aria-pressed={candidate === frame}
+                className={cn(
+                  "rounded px-1.5 py-0.5 font-mono tabular-nums transition-colors",
+                  candidate === frame
+                    ? "bg-blue-600 text-white dark:bg-blue-500"
+                    : "text-slate-600 hover:bg-slate-200 dark:text-slate-400 dark:hover:bg-slate-800"
+                )}
+                onClick={() => setPinnedFrame(candidate === latestFrame ? null : candidate.number)}
+              >
+                #{candidate.number}
+              </button>
+            ))}
+            {pinnedFrame !== null && (
+              <button
+                type="button"
+                className="rounded px-2 py-0.5 text-blue-600 hover:bg-slate-200 dark:text-blue-400 dark:hover:bg-slate-800"
+                onClick={() => setPinnedFrame(null)}
+              >
+                Follow latest
+              </button>
+            )}
+            <button
+              type="button"
+              title="Refresh"
+              aria-label="Refresh VDOM snapshot"
+              className="ml-auto rounded p-1 text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+              onClick={() => setRefreshCount((count) => count + 1)}
+            >
+              <RefreshCw className="h-3.5 w-3.5" />
+            </button>
+          </div>
+
+          {error && <p className="px-3 pb-2 text-red-600 dark:text-red-400">{error}</p>}
+
+          <div className="grid border-t border-slate-200 font-mono text-[11px] md:grid-cols-2 dark:border-slate-800">
+            <div className="max-h-80 overflow-auto p-2">
+              {frame ? (
+                <ul role="tree" aria-label={`VDOM of frame ${frame.number}`}>
+                  <TreeNode
+                    node={frame.root}
+                    depth={0}
+                    selectedPath={selectedPath}
+                    onSelect={setSelectedPath}
+                  />
+                </ul>
+              ) : (
+                <p className="text-slate-500">{snapshot ? "Nothing rendered yet." : "Loading…"}</p>
+              )}
+            </div>
+            <div className="max-h-80 overflow-auto border-t border-slate-200 p-3 md:border-t-0 md:border-l dark:border-slate-800">
+              {selectedNode ? (
+                <NodeDetails
+                  node={selectedNode}
+                  cellCount={selectedSpans ? selectedSpans.reduce((sum, [, , width]) => sum + width, 0) : null}
+                />
+              ) : (
+                <p className="text-slate-500">Select a node to see its attributes and highlight it in the preview.</p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+import { useCoarsePointer } from "@/hooks/useCoarsePointer"
+import { useStickyModifiers } from "@/hooks/useStickyModifiers"
+import { sendVirtualKey } from "@/lib/xtermConsole"
+import { MODIFIERS, VIRTUAL_KEYS, toggleStickyModifier } from "@/lib/virtualKeys"
+import { cn } from "@/lib/utils"
+
+interface Props {
+  elementId: string
+  className?: string
+}
+
+const KEY_CLASS =
+  "min-w-9 shrink-0 rounded border px-2 py-1.5 font-mono text-xs transition-colors select-none active:bg-slate-300 dark:active:bg-slate-700"
+
+/**
+ * Row of keys under a preview on touch devices for what soft keyboards lack: Escape, Tab, arrows and paging,
+ * plus Ctrl, Alt and Shift toggles that apply to the next key, including one typed on the soft keyboard.
+ */
+export default function VirtualKeyBar({ elementId, className }: Props) {
+  const isTouch = useCoarsePointer()
+  const modifiers = useStickyModifiers(elementId)
+
+  if (!isTouch) return null
+
+  const send = (domKey: string) => {
+    sendVirtualKey(elementId, domKey).catch((err) => {
+      console.warn(`Failed to send ${domKey} to '${elementId}':`, err)
+    })
+  }
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Terminal keys"
+      aria-controls={elementId}
+      className={cn("flex gap-1 overflow-x-auto pb-1", className)}
+      // keeps the soft keyboard open by leaving focus in the terminal
+      onMouseDown={(event) => event.preventDefault()}
+    >
+      {MODIFIERS.map(({ id, label }) => (
+        <button
+          key={id}
+          type="button"
+          aria-pressed={modifiers[id]}
+          className={cn(
+            KEY_CLASS,
+            modifiers[id]
+              ? "border-blue-600 bg-blue-600 text-white dark:border-blue-500 dark:bg-blue-500"
+              : "border-slate-300 bg-slate-100 text-slate-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200"
+          )}
+          onClick={() => toggleStickyModifier(elementId, id)}
+        >
+          {label}
+        </button>
+      ))}
+      <span aria-hidden className="mx-1 w-px shrink-0 bg-slate-200 dark:bg-slate-800" />
+      {VIRTUAL_KEYS.map(({ domKey, label, title }) => (
+        <button
+          key={domKey}
+          type="button"
+          title={title}
+          aria-label={title}
+          className={cn(
+            KEY_CLASS,
+            "border-slate-300 bg-white text-slate-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200"
+          )}
+          onClick={() => send(domKey)}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  )
+}
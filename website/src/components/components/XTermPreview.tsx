@@ -2,99 +2,138 @@ import { useEffect, useRef, useState } from "react"
 import type { Terminal } from "xterm"
 import type { FitAddon } from "@xterm/addon-fit"
 import {
+  attachFocusExit,
   attachKeyListener,
+  attachMouseListener,
+  attachTouchListener,
+  disposeTerminal,
+  getTerminalInstance,
   registerTerminalInstance,
   registerComponent,
+  unregisterComponent,
+  retryRuntime,
+  type MouseEventType,
   handleKeyboardEvent,
+  handleMouseEvent,
+  handleTextInput,
   handleResize,
+  setFocusOverlay,
+  startTerminalRecording,
 } from "@/lib/xtermConsole"
 import "xterm/css/xterm.css"
-import { useResolvedTheme } from "@/hooks/useTheme"
+import { useResolvedTheme, useTerminalPalette } from "@/hooks/useTheme"
+import { DEFAULT_DARK_PALETTE, TERMINAL_PALETTES } from "@/lib/terminalTheme"
+import TerminalPaletteSelect from "@/components/components/TerminalPaletteSelect"
+import TerminalSizeControl from "@/components/components/TerminalSizeControl"
+import RuntimeLoadStatus from "@/components/app/RuntimeLoadStatus"
+import { useRuntimeStatus } from "@/hooks/useRuntimeStatus"
+import { useComponentError } from "@/hooks/useComponentError"
+import { useFocusOverlay } from "@/hooks/useFocusOverlay"
+import PreviewCrashPanel from "@/components/components/PreviewCrashPanel"
+import SnapshotExportMenu from "@/components/components/SnapshotExportMenu"
+import PreviewScreenReaderText from "@/components/components/PreviewScreenReaderText"
+import { syncPreviewSuspension } from "@/lib/previewPool"
+import { usePreviewPool } from "@/hooks/usePreviewPool"
+import { downloadAsciicast, stopRecording } from "@/lib/asciicast"
+import { useRecording } from "@/hooks/useRecording"
+import { Circle, Focus, RotateCcw, Square } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { RESIZE_DEBOUNCE_MS, clampSize, type TerminalSize } from "@/lib/terminalSize"
 
 interface XTermPreviewProps {
   elementId: string
   className?: string
   style?: React.CSSProperties
+  // called every time the component has been (re-)registered with the WASM renderer
+  onReady?: () => void
+  // pins the terminal to a number of columns and rows instead of fitting it to the preview
+  initialSize?: TerminalSize | null
 }
 
-const TERMINAL_THEME = {
-  light: {
-    background: "#fafafa",
-    foreground: "#383a42",
-    cursor: "#383a42",
-    selectionBackground: "rgba(0, 0, 0, 0.15)",
-    black: "#383a42",
-    red: "#cd3131",
-    green: "#0dbc79",
-    yellow: "#e5e510",
-    blue: "#2472c8",
-    magenta: "#bc3fbc",
-    cyan: "#11a8cd",
-    white: "#e5e5e5",
-    brightBlack: "#666666",
-    brightRed: "#cd3131",
-    brightGreen: "#14ce96",
-    brightYellow: "#f5f543",
-    brightBlue: "#3b8eea",
-    brightMagenta: "#d670d6",
-    brightCyan: "#29b8db",
-    brightWhite: "#a8a8a8",
-  },
-  dark: {
-    background: "#1e1e1e",
-    foreground: "#cccccc",
-    cursor: "#ffffff",
-    selectionBackground: "rgba(255, 255, 255, 0.15)",
-    black: "#000000",
-    red: "#cd3131",
-    green: "#0dbc79",
-    yellow: "#e5e510",
-    blue: "#2472c8",
-    magenta: "#bc3fbc",
-    cyan: "#11a8cd",
-    white: "#e5e5e5",
-    brightBlack: "#666666",
-    brightRed: "#cd3131",
-    brightGreen: "#14ce96",
-    brightYellow: "#f5f543",
-    brightBlue: "#3b8eea",
-    brightMagenta: "#d670d6",
-    brightCyan: "#29b8db",
-    brightWhite: "#a8a8a8",
-  },
-}
+type ResizeAxis = "x" | "y" | "both"
 
-export default function XTermPreview({ elementId, className = "", style }: XTermPreviewProps) {
+export default function XTermPreview({
+  elementId,
+  className = "",
+  style,
+  onReady,
+  initialSize = null,
+}: XTermPreviewProps) {
+  // state rather than a ref, so the preview pool observes the node that is currently rendered
+  const [container, setContainer] = useState<HTMLDivElement | null>(null)
   const terminalRef = useRef<HTMLDivElement>(null)
+  // receives focus when the user leaves the terminal, so the next Tab continues after the preview
+  const exitRef = useRef<HTMLSpanElement>(null)
+  const onReadyRef = useRef(onReady)
   const xtermRef = useRef<Terminal | null>(null)
   const fitAddonRef = useRef<FitAddon | null>(null)
+  // null fits the terminal to the preview
+  const [size, setSize] = useState<TerminalSize | null>(initialSize)
+  const sizeRef = useRef(size)
+  // applies sizeRef to the running terminal; set while one exists
+  const applySizeRef = useRef<(() => void) | null>(null)
+  const [dimensions, setDimensions] = useState<TerminalSize | null>(null)
+  const [isTerminalFocused, setIsTerminalFocused] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  // bumped by the retry button to start the preview again
+  const [attempt, setAttempt] = useState(0)
+  const runtimeStatus = useRuntimeStatus()
+  // set when the component throws inside the renderer; the terminal keeps showing the last frame
+  const componentError = useComponentError(elementId)
+  // outlines of the focusable elements reported by the renderer, toggled from the title bar
+  const focusOverlay = useFocusOverlay(elementId)
+  const recordingState = useRecording(elementId)
+  const isRecording = recordingState !== "idle"
   const theme = useResolvedTheme()
   const [isDark, setIsDark] = useState(true)
   const [isMounted, setIsMounted] = useState(false)
+  const selectedPalette = useTerminalPalette(isDark)
+  // the stored palette is only known on the client, so the prerendered markup uses the default
+  const palette = isMounted ? selectedPalette : TERMINAL_PALETTES[DEFAULT_DARK_PALETTE]
+  // read when a terminal is created; later palette changes are applied to the running terminal
+  const paletteRef = useRef(palette)
+  const isLive = usePreviewPool(elementId, container, isMounted)
 
   useEffect(() => {
     setIsMounted(true)
   }, [])
 
+  useEffect(() => {
+    onReadyRef.current = onReady
+  }, [onReady])
+
   useEffect(() => {
     if (!isMounted) return
     setIsDark(theme === "dark")
   }, [theme, isMounted])
 
   useEffect(() => {
+    paletteRef.current = palette
     if (xtermRef.current) {
-      xtermRef.current.options.theme = isDark ? TERMINAL_THEME.dark : TERMINAL_THEME.light
+      xtermRef.current.options.theme = palette.colors
     }
-  }, [isDark])
+  }, [palette])
 
   useEffect(() => {
-    if (!isMounted) return
+    sizeRef.current = size
+    try {
+      applySizeRef.current?.()
+    } catch (e) {
+      console.warn("Failed to resize terminal:", e)
+    }
+  }, [size])
+
+  useEffect(() => {
+    if (!isMounted || !isLive) return
 
     let cancelled = false
+    let registered = false
     let disposed = false
     let disposeTimer: ReturnType<typeof setTimeout> | null = null
+    let resizeTimer: ReturnType<typeof setTimeout> | null = null
+    // the size the renderer lays out against, null until the component is registered
+    let rendererSize: TerminalSize | null = null
     let resizeObserver: ResizeObserver | null = null
     let termInstance: Terminal | null = null
 
@@ -117,11 +156,13 @@ export default function XTermPreview({ elementId, className = "", style }: XTerm
           cursorBlink: true,
           scrollback: 1000,
           cursorInactiveStyle: "none",
-          theme: isDark ? TERMINAL_THEME.dark : TERMINAL_THEME.light,
+          theme: paletteRef.current.colors,
           allowProposedApi: true,
           minimumContrastRatio: 1,
           allowTransparency: true,
           convertEol: true,
+          // mirrors the screen in an accessibility tree that screen readers can navigate
+          screenReaderMode: true,
         })
 
         const fitAddon = new FitAddon()
@@ -133,18 +174,39 @@ export default function XTermPreview({ elementId, className = "", style }: XTerm
 
         term.open(terminalRef.current)
 
-        // Fit the terminal first to get accurate dimensions
-        fitAddon.fit()
+        const applySize = () => {
+          const fixedSize = sizeRef.current
+          if (fixedSize) {
+            term.resize(fixedSize.cols, fixedSize.rows)
+          } else {
+            fitAddon.fit()
+          }
+        }
+        applySizeRef.current = applySize
+
+        // Size the terminal first to get accurate dimensions
+        applySize()
+        setDimensions({ cols: term.cols, rows: term.rows })
+
+        term.onResize(({ cols, rows }) => {
+          setDimensions({ cols, rows })
+          if (resizeTimer !== null) clearTimeout(resizeTimer)
+          resizeTimer = setTimeout(() => {
+            resizeTimer = null
+            if (disposed || rendererSize === null) return
+            if (rendererSize.cols === term.cols && rendererSize.rows === term.rows) return
+            // Notify the C# renderer about the new terminal dimensions
+            rendererSize = { cols: term.cols, rows: term.rows }
+            console.debug("Terminal resized to", term.cols, "x", term.rows)
+            void handleResize(elementId, term.cols, term.rows)
+          }, RESIZE_DEBOUNCE_MS)
+        })
 
         resizeObserver = new ResizeObserver(() => {
-          if (!disposed) {
+          // a pinned size does not follow the preview
+          if (!disposed && sizeRef.current === null) {
             try {
               fitAddon.fit()
-              // Notify the C# renderer about the new terminal dimensions
-              const cols = term.cols
-              const rows = term.rows
-              console.debug("Terminal resized to", cols, "x", rows)
-              void handleResize(elementId, cols, rows)
             } catch (e) {
               console.warn("Failed to fit terminal:", e)
             }
@@ -157,11 +219,18 @@ export default function XTermPreview({ elementId, className = "", style }: XTerm
 
         registerTerminalInstance(elementId, term)
         // Pass the initial terminal dimensions to register the component with the correct size
+        registered = true
+        rendererSize = { cols: term.cols, rows: term.rows }
         await registerComponent(elementId, term.cols, term.rows)
+        syncPreviewSuspension(elementId)
 
         attachKeyListener(elementId, {
           invokeMethodAsync: async (methodName: string, ...args: unknown[]) => {
             console.debug(`Key event forwarded from preview via ${methodName}`, args)
+            if (methodName === "HandleTextInput") {
+              await handleTextInput(...(args as [string, string]))
+              return null
+            }
             await handleKeyboardEvent(
               ...(args as [string, string, string, boolean, boolean, boolean])
             )
@@ -169,8 +238,35 @@ export default function XTermPreview({ elementId, className = "", style }: XTerm
           },
         })
 
+        // Tab and Shift+Tab belong to the component, Escape twice leaves the terminal
+        attachFocusExit(elementId, () => exitRef.current?.focus())
+
+        attachMouseListener(elementId, {
+          invokeMethodAsync: async (_methodName: string, ...args: unknown[]) => {
+            await handleMouseEvent(
+              ...(args as [string, MouseEventType, number, number, number, boolean, boolean, boolean])
+            )
+            return null
+          },
+        })
+
+        // swipes become arrow keys and wheel ticks on touch screens
+        attachTouchListener(elementId, {
+          invokeMethodAsync: async (methodName: string, ...args: unknown[]) => {
+            if (methodName === "HandleMouseEvent") {
+              await handleMouseEvent(
+                ...(args as [string, MouseEventType, number, number, number, boolean, boolean, boolean])
+              )
+              return null
+            }
+            await handleKeyboardEvent(...(args as [string, string, string, boolean, boolean, boolean]))
+            return null
+          },
+        })
+
         if (!cancelled) {
           setIsLoading(false)
+          onReadyRef.current?.()
         }
       } catch (err) {
         if (!cancelled) {
@@ -184,7 +280,14 @@ export default function XTermPreview({ elementId, className = "", style }: XTerm
       if (disposed) return
       disposed = true
       if (resizeObserver) resizeObserver.disconnect()
-      if (termInstance) termInstance.dispose()
+      if (resizeTimer !== null) clearTimeout(resizeTimer)
+      applySizeRef.current = null
+      // a newer effect may already have registered its own terminal under the same id
+      if (termInstance && getTerminalInstance(elementId) === termInstance) {
+        disposeTerminal(elementId)
+      } else if (termInstance) {
+        termInstance.dispose()
+      }
       xtermRef.current = null
       fitAddonRef.current = null
     }
@@ -193,10 +296,88 @@ export default function XTermPreview({ elementId, className = "", style }: XTerm
 
     return () => {
       cancelled = true
+      // Queued before any re-registration of the same id, so it cannot dispose the newer renderer
+      if (registered) {
+        unregisterComponent(elementId).catch((err) => {
+          console.warn(`Failed to dispose renderer of '${elementId}':`, err)
+        })
+      }
       if (disposeTimer !== null) clearTimeout(disposeTimer)
       disposeTimer = window.setTimeout(disposeSafely, 0)
     }
-  }, [elementId, isDark, isMounted])
+  }, [elementId, isMounted, isLive, attempt])
+
+  const retry = () => {
+    // a runtime that failed to download or start is discarded so the next registration starts a new one
+    retryRuntime()
+    setError(null)
+    setAttempt((count) => count + 1)
+  }
+
+  // registering the component again replaces the crashed renderer with a fresh one
+  const restart = () => {
+    setAttempt((count) => count + 1)
+  }
+
+  const toggleFocusOverlay = () => {
+    setFocusOverlay(elementId, !focusOverlay.enabled).catch((err) => {
+      console.warn(`Failed to toggle the focus overlay of '${elementId}':`, err)
+    })
+  }
+
+  // dragging a handle pins the terminal to the number of cells the pointer travelled
+  const startResize = (axis: ResizeAxis) => (event: React.PointerEvent<HTMLDivElement>) => {
+    const term = xtermRef.current
+    const screen = terminalRef.current?.querySelector(".xterm-screen")
+    if (!term || !screen) return
+
+    event.preventDefault()
+    const rect = screen.getBoundingClientRect()
+    const cellWidth = rect.width / term.cols
+    const cellHeight = rect.height / term.rows
+    const start = { x: event.clientX, y: event.clientY, cols: term.cols, rows: term.rows }
+    const handle = event.currentTarget
+    handle.setPointerCapture(event.pointerId)
+
+    const move = (e: PointerEvent) => {
+      const next = clampSize({
+        cols: axis === "y" ? start.cols : start.cols + (e.clientX - start.x) / cellWidth,
+        rows: axis === "x" ? start.rows : start.rows + (e.clientY - start.y) / cellHeight,
+      })
+      setSize((previous) =>
+        previous?.cols === next.cols && previous.rows === next.rows ? previous : next
+      )
+    }
+    const end = () => {
+      handle.removeEventListener("pointermove", move)
+      handle.removeEventListener("pointerup", end)
+      handle.removeEventListener("pointercancel", end)
+    }
+    handle.addEventListener("pointermove", move)
+    handle.addEventListener("pointerup", end)
+    handle.addEventListener("pointercancel", end)
+  }
+
+  const toggleRecording = () => {
+    if (!isRecording) {
+      startTerminalRecording(elementId, palette.colors)
+      return
+    }
+    const cast = stopRecording(elementId)
+    if (cast) downloadAsciicast(cast, `${elementId}-${Date.now()}.cast`)
+  }
+
+  const describeStatus = () => {
+    if (componentError) {
+      return `The preview crashed with ${componentError.exceptionType}: ${componentError.message}`
+    }
+    if (isLoading || !isLive) return "The preview is loading."
+    const sizeText = dimensions ? ` of ${dimensions.cols} columns and ${dimensions.rows} rows` : ""
+    return (
+      `Interactive terminal${sizeText}. Tab and the arrow keys move through the component; ` +
+      "press Escape twice to leave the terminal."
+    )
+  }
 
   // Render empty placeholder if not mounted (SSG)
   if (!isMounted) {
@@ -205,18 +386,38 @@ export default function XTermPreview({ elementId, className = "", style }: XTerm
 
   if (error) {
     return (
-      <div className="rounded bg-red-50 p-4 text-red-600 dark:bg-red-900/20 dark:text-red-400">
-        Error: {error}
+      <div className="flex items-center gap-3 rounded bg-red-50 p-4 text-red-600 dark:bg-red-900/20 dark:text-red-400">
+        <span className="flex-1">Error: {error}</span>
+        <button
+          type="button"
+          className="inline-flex items-center gap-1 rounded border border-red-300 px-2 py-1 text-xs font-medium hover:bg-red-100 dark:border-red-800 dark:hover:bg-red-900/40"
+          onClick={retry}
+        >
+          <RotateCcw className="h-3 w-3" />
+          Retry
+        </button>
       </div>
     )
   }
 
   return (
     <div
-      className={`relative overflow-hidden rounded-xl border border-slate-200 dark:border-slate-800 ${className}`}
+      ref={setContainer}
+      role="region"
+      aria-label={`${elementId} preview`}
+      aria-roledescription="terminal preview"
+      aria-describedby={`${elementId}-description`}
+      aria-busy={isLoading || !isLive}
+      className={cn(
+        "relative rounded-xl border border-slate-200 dark:border-slate-800",
+        // a pinned terminal keeps its size and scrolls when the preview is narrower
+        size ? "w-fit max-w-full overflow-x-auto" : "overflow-hidden",
+        className
+      )}
       style={{
-        backgroundColor: isDark ? TERMINAL_THEME.dark.background : TERMINAL_THEME.light.background,
+        backgroundColor: palette.colors.background,
         ...style,
+        ...(size && { height: "auto" }),
       }}
     >
       {/* Window Title Bar */}
@@ -229,27 +430,135 @@ export default function XTermPreview({ elementId, className = "", style }: XTerm
         <div className="flex-1 text-center font-sans text-xs font-medium text-slate-500 select-none">
           RazorConsole
         </div>
-        <div className="w-12" /> {/* Spacer for centering */}
+        <div className="flex items-center justify-end gap-2">
+          <TerminalSizeControl
+            size={size}
+            current={dimensions}
+            onChange={setSize}
+            disabled={isLoading || !isLive}
+          />
+          <TerminalPaletteSelect disabled={!isMounted} />
+          <button
+            type="button"
+            title={focusOverlay.enabled ? "Hide focusable regions" : "Show focusable regions and Tab order"}
+            aria-label="Show focusable regions"
+            aria-pressed={focusOverlay.enabled}
+            className={cn(
+              "transition-colors disabled:opacity-40",
+              focusOverlay.enabled
+                ? "text-amber-500 hover:text-amber-600"
+                : "text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+            )}
+            disabled={isLoading || !isLive}
+            onClick={toggleFocusOverlay}
+          >
+            <Focus className="h-3.5 w-3.5" />
+          </button>
+          <button
+            type="button"
+            title={
+              recordingState === "full"
+                ? "The recording is full and no longer captures the session. Stop it and download it (.cast)"
+                : isRecording
+                  ? "Stop recording and download it (.cast)"
+                  : "Record the session"
+            }
+            aria-label={recordingState === "full" ? "Record the session (recording is full)" : "Record the session"}
+            aria-pressed={isRecording}
+            className={cn(
+              "inline-flex items-center gap-1 transition-colors disabled:opacity-40",
+              recordingState === "full"
+                ? "text-amber-500 hover:text-amber-600"
+                : isRecording
+                  ? "text-red-500 hover:text-red-600"
+                  : "text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+            )}
+            disabled={isLoading || !isLive}
+            onClick={toggleRecording}
+          >
+            {isRecording ? (
+              <Square className="h-3.5 w-3.5 fill-current" />
+            ) : (
+              <Circle className="h-3.5 w-3.5" />
+            )}
+            {recordingState === "full" && <span className="text-[10px] font-medium">Full</span>}
+          </button>
+          <SnapshotExportMenu
+            elementId={elementId}
+            colors={palette.colors}
+            disabled={isLoading || !isLive}
+          />
+        </div>
       </div>
 
-      {isLoading && (
-        <div className="absolute inset-0 z-10 flex items-center justify-center bg-slate-900/50 text-white">
-          Loading preview...
+      {(isLoading || !isLive) && (
+        <div className="absolute inset-0 z-10 flex items-center justify-center bg-slate-900/50 px-6 text-white">
+          {isLive ? (
+            <RuntimeLoadStatus status={runtimeStatus} />
+          ) : (
+            "Loading preview..."
+          )}
         </div>
       )}
+      {componentError && !isLoading && (
+        <PreviewCrashPanel
+          elementId={elementId}
+          error={componentError}
+          onRestart={restart}
+          className="absolute inset-0 z-20"
+        />
+      )}
+      <PreviewScreenReaderText
+        elementId={elementId}
+        descriptionId={`${elementId}-description`}
+        status={describeStatus()}
+      />
       <div
         ref={terminalRef}
         id={elementId}
+        onFocus={() => setIsTerminalFocused(true)}
+        onBlur={() => setIsTerminalFocused(false)}
         style={{
-          backgroundColor: isDark
-            ? TERMINAL_THEME.dark.background
-            : TERMINAL_THEME.light.background,
-          height: "calc(100% - 48px)",
-          width: "calc(100% - 24px)",
-          margin: "auto",
+          backgroundColor: palette.colors.background,
+          ...(size
+            ? { width: "max-content", margin: "0 12px" }
+            : { height: "calc(100% - 48px)", width: "calc(100% - 24px)", margin: "auto" }),
           padding: "12px 0",
         }}
       />
+      {isTerminalFocused && (
+        <div
+          aria-hidden
+          className="pointer-events-none absolute right-3 bottom-3 z-10 rounded bg-slate-900/80 px-2 py-1 font-sans text-xs text-slate-200"
+        >
+          Press <kbd className="font-mono">Esc</kbd> twice to leave the terminal
+        </div>
+      )}
+      <span ref={exitRef} tabIndex={-1} className="sr-only">
+        Left the terminal. Press Tab to continue after the preview.
+      </span>
+      {!isLoading && isLive && (
+        <>
+          <div
+            aria-hidden
+            title="Drag to change the number of columns"
+            className="absolute top-10 right-0 bottom-3 w-1.5 cursor-ew-resize touch-none hover:bg-blue-500/40"
+            onPointerDown={startResize("x")}
+          />
+          <div
+            aria-hidden
+            title="Drag to change the number of rows"
+            className="absolute right-3 bottom-0 left-0 h-1.5 cursor-ns-resize touch-none hover:bg-blue-500/40"
+            onPointerDown={startResize("y")}
+          />
+          <div
+            aria-hidden
+            title="Drag to resize the terminal"
+            className="absolute right-0 bottom-0 h-3 w-3 cursor-nwse-resize touch-none hover:bg-blue-500/40"
+            onPointerDown={startResize("both")}
+          />
+        </>
+      )}
     </div>
   )
 }
\ No newline at end of file
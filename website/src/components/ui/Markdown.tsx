@@ -3,6 +3,7 @@ import ReactMarkdown from "react-markdown"
 import remarkGfm from "remark-gfm"
 import rehypeSlug from "rehype-slug"
 import CodeBlock from "./CodeBlock"
+import AsciicastPlayer from "@/components/components/AsciicastPlayer"
 import type { BundledLanguage } from "shiki"
 import { Info, Lightbulb, OctagonAlert, TriangleAlert, Zap } from "lucide-react"
 
@@ -56,6 +57,11 @@ const ALERT_CONFIG: Record<
     iconColor: "text-red-500",
   },
 }
+// Paths starting with `/` point into `public/`, below the base path the site is served from
+function resolveSitePath(path: string): string {
+  return path.startsWith("/") ? `${import.meta.env.BASE_URL.replace(/\/$/, "")}${path}` : path
+}
+
 export const MarkdownRenderer = React.memo<MarkdownRendererProps>(({ content, className = "" }) => {
   return (
     <div className={`markdown-renderer ${className}`}>
@@ -82,6 +88,16 @@ export const MarkdownRenderer = React.memo<MarkdownRendererProps>(({ content, cl
               )
             }
 
+            // ```asciicast blocks embed a recording: the path of a .cast file, or its contents
+            if (match[1] === "asciicast") {
+              const source = codeContent.trim()
+              return source.startsWith("{") ? (
+                <AsciicastPlayer content={source} className="my-4" />
+              ) : (
+                <AsciicastPlayer src={resolveSitePath(source)} className="my-4" />
+              )
+            }
+
             return <CodeBlock code={codeContent} language={language} showCopy={true} />
           },
 
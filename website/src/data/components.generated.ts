@@ -81,7 +81,7 @@ export const componentMetadata: Record<string, Partial<ComponentInfo>> = {
   Select: {
     category: "Input",
     description: "Interactive dropdown for choosing a value with keyboard navigation.",
-    examples: ["Select_1.razor"],
+    examples: ["Select_1.razor", "Select_2.razor"],
   },
   StepChart: {
     category: "Display",
@@ -98,6 +98,7 @@ export const componentMetadata: Record<string, Partial<ComponentInfo>> = {
     category: "Utilities",
     description: "Shows a Spectre spinner with optional message.",
     examples: ["Spinner_1.razor"],
+    animated: true,
   },
   SpectreCanvas: {
     category: "Display",
@@ -197,12 +198,11 @@ export const typeOverrides: Record<string, Record<string, string>> = {
   },
 }
 
-const docfxNameOverrides: Record<string, string> = {
-  Button: "TextButton",
+export const docfxNameOverrides: Record<string, string> = {
   Table: "SpectreTable",
 }
 
-function findDocfxItem(componentName: string): DocfxApiItem | undefined {
+export function findDocfxItem(componentName: string): DocfxApiItem | undefined {
   const target = docfxNameOverrides[componentName] ?? componentName;
   const fullName = `RazorConsole.Components.${target}`;
 
@@ -217,7 +217,7 @@ function findDocfxItem(componentName: string): DocfxApiItem | undefined {
   });
 }
 
-function isParameterMember(member: Pick<DocfxApiMember, "type" | "attributes">): boolean {
+export function isParameterMember(member: Pick<DocfxApiMember, "type" | "attributes">): boolean {
   if (member.type !== "Property") return false;
   return (member.attributes ?? []).some(attr => 
     attr.type?.endsWith(".ParameterAttribute") || 
@@ -259,6 +259,7 @@ export function generateComponents(): ComponentInfo[] {
       examples: metadata.examples || [],
       parameters: extractParameters(componentName, docfxItem),
       previewHeight: metadata.previewHeight,
+      animated: metadata.animated,
     }
   });
 }
\ No newline at end of file
@@ -0,0 +1,15 @@
+import { useSyncExternalStore } from "react"
+
+const QUERY = "(pointer: coarse)"
+
+function subscribe(listener: () => void): () => void {
+  const mediaQuery = window.matchMedia(QUERY)
+  mediaQuery.addEventListener("change", listener)
+  return () => mediaQuery.removeEventListener("change", listener)
+}
+
+/**
+ * Returns true when the primary pointer is a finger, i.e. on phones and tablets. Always false while prerendering.
+ */
+export const useCoarsePointer = () =>
+  useSyncExternalStore(subscribe, () => window.matchMedia(QUERY).matches, () => false)
@@ -0,0 +1,10 @@
+import { useCallback, useSyncExternalStore } from "react"
+import { getComponentError, subscribeComponentErrors } from "@/lib/xtermConsole"
+
+/**
+ * Returns the exception that crashed the renderer of a preview, or null while it is running.
+ */
+export const useComponentError = (elementId: string) => {
+  const getSnapshot = useCallback(() => getComponentError(elementId), [elementId])
+  return useSyncExternalStore(subscribeComponentErrors, getSnapshot, () => null)
+}
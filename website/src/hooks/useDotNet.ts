@@ -12,7 +12,8 @@ export const useDotNet = (url: string) => {
 
     if (!moduleCache.has(absoluteUrl)) {
       const modulePromise = (async () => {
-        const response = await fetch(absoluteUrl, { cache: "no-cache" })
+        // regular caching so the service worker can answer offline
+        const response = await fetch(absoluteUrl)
         if (!response.ok) {
           throw new Error(
             `Failed to fetch ${absoluteUrl}: ${response.status} ${response.statusText}`
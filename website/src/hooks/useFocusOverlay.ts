@@ -0,0 +1,11 @@
+import { useCallback, useSyncExternalStore } from "react"
+import { getFocusOverlay, subscribeFocusOverlays } from "@/lib/xtermConsole"
+
+/**
+ * Returns whether the focus overlay of a preview is shown and the focusable regions reported last.
+ */
+export const useFocusOverlay = (elementId: string) => {
+  const getSnapshot = useCallback(() => getFocusOverlay(elementId), [elementId])
+  // nothing is enabled while prerendering, so the disabled overlay is also the server snapshot
+  return useSyncExternalStore(subscribeFocusOverlays, getSnapshot, getSnapshot)
+}
@@ -0,0 +1,12 @@
+import { useCallback, useSyncExternalStore } from "react"
+import { getDiagnostics, subscribeDiagnostics, type PreviewDiagnosticEntry } from "@/lib/previewDiagnostics"
+
+const SERVER_DIAGNOSTICS: readonly PreviewDiagnosticEntry[] = []
+
+/**
+ * Returns the stdout lines, forwarded keys, resizes and frame timings recorded for a preview.
+ */
+export const usePreviewDiagnostics = (elementId: string) => {
+  const getSnapshot = useCallback(() => getDiagnostics(elementId), [elementId])
+  return useSyncExternalStore(subscribeDiagnostics, getSnapshot, () => SERVER_DIAGNOSTICS)
+}
@@ -0,0 +1,23 @@
+import { useEffect, useState } from "react"
+import { addToPreviewPool } from "@/lib/previewPool"
+
+/**
+ * Joins the shared preview pool and returns whether the preview may currently hold a live renderer.
+ * Stays false until the element is scrolled into view. Pass the element from a callback ref, so the pool
+ * follows the preview when it is rendered into a new node, e.g. after a retry.
+ */
+export const usePreviewPool = (elementId: string, element: Element | null, enabled: boolean) => {
+  const [isLive, setIsLive] = useState(false)
+
+  useEffect(() => {
+    if (!enabled || !element) return
+
+    const leave = addToPreviewPool(elementId, element, setIsLive)
+    return () => {
+      leave()
+      setIsLive(false)
+    }
+  }, [elementId, element, enabled])
+
+  return isLive
+}
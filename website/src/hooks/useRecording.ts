@@ -0,0 +1,10 @@
+import { useCallback, useSyncExternalStore } from "react"
+import { getRecordingState, subscribeRecordings, type RecordingState } from "@/lib/asciicast"
+
+/**
+ * Returns whether a preview is recording its session, and whether the recording is full.
+ */
+export const useRecording = (elementId: string): RecordingState => {
+  const getSnapshot = useCallback(() => getRecordingState(elementId), [elementId])
+  return useSyncExternalStore(subscribeRecordings, getSnapshot, () => "idle")
+}
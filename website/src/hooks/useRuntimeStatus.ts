@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from "react"
+import { getRuntimeStatus, subscribeRuntimeStatus, type RuntimeStatus } from "@/lib/xtermConsole"
+
+const SERVER_STATUS: RuntimeStatus = { stage: "idle" }
+
+/**
+ * Returns the loading state of the shared .NET runtime and re-renders while it downloads and starts.
+ */
+export const useRuntimeStatus = () =>
+  useSyncExternalStore(subscribeRuntimeStatus, getRuntimeStatus, () => SERVER_STATUS)
@@ -0,0 +1,16 @@
+import { useCallback, useSyncExternalStore } from "react"
+import {
+  getScreenReaderText,
+  subscribeScreenReaderText,
+  type ScreenReaderText,
+} from "@/lib/screenReaderText"
+
+const SERVER_TEXT: ScreenReaderText = { lines: [], announcement: "" }
+
+/**
+ * Returns the visible lines of a preview and the changed lines its live region should announce.
+ */
+export const useScreenReaderText = (elementId: string) => {
+  const getSnapshot = useCallback(() => getScreenReaderText(elementId), [elementId])
+  return useSyncExternalStore(subscribeScreenReaderText, getSnapshot, () => SERVER_TEXT)
+}
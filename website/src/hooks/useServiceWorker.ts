@@ -0,0 +1,52 @@
+import { useEffect, useState } from "react"
+
+/**
+ * Registers the generated service worker (`scripts/generate-sw.ts`) in production builds.
+ * `updateAvailable` turns true once a worker with different content hashes is installed and
+ * waiting; `applyUpdate` activates it and reloads the page.
+ */
+export const useServiceWorker = () => {
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null)
+
+  useEffect(() => {
+    if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return
+
+    let cancelled = false
+    let registration: ServiceWorkerRegistration | null = null
+
+    // only an update replaces an existing controller; the first install needs no prompt
+    const trackInstalling = (worker: ServiceWorker | null) => {
+      worker?.addEventListener("statechange", () => {
+        if (worker.state === "installed" && navigator.serviceWorker.controller && !cancelled) {
+          setWaitingWorker(worker)
+        }
+      })
+    }
+    const handleUpdateFound = () => trackInstalling(registration?.installing ?? null)
+
+    navigator.serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`, { scope: import.meta.env.BASE_URL })
+      .then((reg) => {
+        if (cancelled) return
+        registration = reg
+        if (reg.waiting && navigator.serviceWorker.controller) setWaitingWorker(reg.waiting)
+        reg.addEventListener("updatefound", handleUpdateFound)
+      })
+      .catch((err) => console.warn("Service worker registration failed:", err))
+
+    return () => {
+      cancelled = true
+      registration?.removeEventListener("updatefound", handleUpdateFound)
+    }
+  }, [])
+
+  const applyUpdate = () => {
+    if (!waitingWorker) return
+    navigator.serviceWorker.addEventListener("controllerchange", () => window.location.reload(), {
+      once: true,
+    })
+    waitingWorker.postMessage({ type: "SKIP_WAITING" })
+  }
+
+  return { updateAvailable: waitingWorker !== null, applyUpdate }
+}
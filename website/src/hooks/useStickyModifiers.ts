@@ -0,0 +1,10 @@
+import { useCallback, useSyncExternalStore } from "react"
+import { getStickyModifiers, subscribeStickyModifiers } from "@/lib/virtualKeys"
+
+/**
+ * Returns the modifiers toggled on the key bar of a preview, which apply to its next key.
+ */
+export const useStickyModifiers = (elementId: string) => {
+  const getSnapshot = useCallback(() => getStickyModifiers(elementId), [elementId])
+  return useSyncExternalStore(subscribeStickyModifiers, getSnapshot, getSnapshot)
+}
@@ -1,14 +1,26 @@
 import { create } from "zustand"
+import {
+  isTerminalPaletteSelection,
+  resolveTerminalPalette,
+  type TerminalPaletteSelection,
+} from "@/lib/terminalTheme"
 
 type Theme = "light" | "dark" | "system"
 
 type ThemeStore = {
   theme: Theme
   setTheme: (theme: Theme) => void
+  terminalPalette: TerminalPaletteSelection
+  setTerminalPalette: (palette: TerminalPaletteSelection) => void
 }
 
 const isBrowser = typeof window !== "undefined"
 
+function readTerminalPalette(): TerminalPaletteSelection {
+  const stored = isBrowser ? localStorage.getItem("terminal-palette") : null
+  return isTerminalPaletteSelection(stored) ? stored : "auto"
+}
+
 export const useTheme = create<ThemeStore>((set) => ({
   theme: isBrowser ? (localStorage.getItem("theme") as Theme) || "system" : "system",
 
@@ -18,6 +30,15 @@ export const useTheme = create<ThemeStore>((set) => ({
     }
     set({ theme })
   },
+
+  terminalPalette: readTerminalPalette(),
+
+  setTerminalPalette: (terminalPalette: TerminalPaletteSelection) => {
+    if (isBrowser) {
+      localStorage.setItem("terminal-palette", terminalPalette)
+    }
+    set({ terminalPalette })
+  },
 }))
 
 export function useResolvedTheme() {
@@ -30,4 +51,15 @@ export function useResolvedTheme() {
   }
   
   return theme as "dark" | "light"
-}
\ No newline at end of file
+}
+
+/**
+ * Returns the terminal palette picked by the reader, with "auto" resolved against the site theme.
+ * Pass `isDark` to resolve against a hydration-safe value instead of the live site theme.
+ */
+export function useTerminalPalette(isDark?: boolean) {
+  const selection = useTheme((s) => s.terminalPalette)
+  const resolvedTheme = useResolvedTheme()
+
+  return resolveTerminalPalette(selection, isDark ?? resolvedTheme === "dark")
+}
@@ -0,0 +1,224 @@
+import type { Terminal } from "xterm"
+
+// asciicast v2 format: https://docs.asciinema.org/manual/asciicast/v2/
+export interface AsciicastHeader {
+  version: 2
+  width: number
+  height: number
+  // unix timestamp (seconds) of the beginning of the recording
+  timestamp?: number
+  title?: string
+  env?: Record<string, string>
+}
+
+// "o" = output, "i" = input, "r" = resize ("{cols}x{rows}"), "m" = marker
+export type AsciicastEventType = "o" | "i" | "r" | "m"
+
+// [seconds since the start of the recording, event type, data]
+export type AsciicastEvent = [time: number, type: AsciicastEventType, data: string]
+
+export interface Asciicast {
+  header: AsciicastHeader
+  events: AsciicastEvent[]
+}
+
+// "full" recordings hit a size cap and keep their beginning, but no later events
+export type RecordingState = "idle" | "recording" | "full"
+
+export interface ReplayOptions {
+  // playback speed multiplier
+  speed?: number
+  // caps pauses between events (in seconds) so idle periods don't stall playback
+  maxIdle?: number
+  signal?: AbortSignal
+}
+
+interface Recording {
+  startedAt: number
+  header: AsciicastHeader
+  events: AsciicastEvent[]
+  // characters of event data kept so far
+  size: number
+  isFull: boolean
+}
+
+// Guards memory usage of recordings that are left running; animations write a full frame many times a second
+const MAX_EVENTS = 100_000
+const MAX_SIZE = 8_000_000
+const REVOKE_DELAY_MS = 10_000
+const EVENT_TYPES = new Set<string>(["o", "i", "r", "m"])
+
+const recordings = new Map<string, Recording>()
+const listeners = new Set<() => void>()
+
+function notify(): void {
+  listeners.forEach((listener) => listener())
+}
+
+export function serializeAsciicast(cast: Asciicast): string {
+  const lines = [
+    JSON.stringify(cast.header),
+    ...cast.events.map(([time, type, data]) => JSON.stringify([Number(time.toFixed(6)), type, data])),
+  ]
+  return `${lines.join("\n")}\n`
+}
+
+export function parseAsciicast(text: string): Asciicast {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim().length > 0)
+  if (lines.length === 0) {
+    throw new Error("The asciicast file is empty.")
+  }
+
+  const header = JSON.parse(lines[0]) as AsciicastHeader
+  if (header.version !== 2) {
+    throw new Error(`Unsupported asciicast version '${header.version}', only version 2 is supported.`)
+  }
+
+  const events = lines.slice(1).map((line, index) => {
+    const event = JSON.parse(line) as unknown
+    if (
+      !Array.isArray(event) ||
+      typeof event[0] !== "number" ||
+      !EVENT_TYPES.has(event[1]) ||
+      typeof event[2] !== "string"
+    ) {
+      throw new Error(`Invalid asciicast event on line ${index + 2}.`)
+    }
+    return event as AsciicastEvent
+  })
+
+  return { header, events }
+}
+
+/**
+ * Starts capturing output, input and resize events of a terminal. Previews only record while the user asks
+ * them to. Any previous recording for the same element is discarded.
+ */
+export function startRecording(elementId: string, cols: number, rows: number): void {
+  recordings.set(elementId, {
+    startedAt: performance.now(),
+    header: {
+      version: 2,
+      width: cols,
+      height: rows,
+      timestamp: Math.floor(Date.now() / 1000),
+      title: elementId,
+      env: { TERM: "xterm-256color" },
+    },
+    events: [],
+    size: 0,
+    isFull: false,
+  })
+  notify()
+}
+
+export function stopRecording(elementId: string): Asciicast | undefined {
+  const cast = getRecording(elementId)
+  if (recordings.delete(elementId)) {
+    notify()
+  }
+  return cast
+}
+
+export function isRecording(elementId: string): boolean {
+  return recordings.has(elementId)
+}
+
+export function getRecordingState(elementId: string): RecordingState {
+  const recording = recordings.get(elementId)
+  if (!recording) return "idle"
+  return recording.isFull ? "full" : "recording"
+}
+
+export function recordEvent(elementId: string, type: AsciicastEventType, data: string): void {
+  const recording = recordings.get(elementId)
+  if (!recording || recording.isFull) return
+
+  // a full recording keeps its beginning, so it still replays from a known screen
+  if (recording.events.length >= MAX_EVENTS || recording.size + data.length > MAX_SIZE) {
+    recording.isFull = true
+    notify()
+    return
+  }
+
+  recording.events.push([(performance.now() - recording.startedAt) / 1000, type, data])
+  recording.size += data.length
+}
+
+/**
+ * Returns a copy of everything captured so far without stopping the recording.
+ */
+export function getRecording(elementId: string): Asciicast | undefined {
+  const recording = recordings.get(elementId)
+  if (!recording) return undefined
+
+  return { header: { ...recording.header }, events: [...recording.events] }
+}
+
+/** Calls `listener` whenever a recording starts, fills up or stops. Returns a function that unsubscribes. */
+export function subscribeRecordings(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function downloadAsciicast(cast: Asciicast, fileName: string): void {
+  const blob = new Blob([serializeAsciicast(cast)], { type: "application/x-asciicast" })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName.endsWith(".cast") ? fileName : `${fileName}.cast`
+  link.click()
+  // Firefox starts the download after the click returns, and cancels it when the URL is already gone
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS)
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve()
+
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer)
+        resolve()
+      },
+      { once: true }
+    )
+  })
+}
+
+function writeAsync(terminal: Terminal, data: string): Promise<void> {
+  return new Promise((resolve) => terminal.write(data, resolve))
+}
+
+/**
+ * Plays the output and resize events of a recording back into an xterm instance.
+ * Input events are skipped, their effect is already part of the recorded output.
+ */
+export async function replayAsciicast(
+  terminal: Terminal,
+  cast: Asciicast,
+  { speed = 1, maxIdle = 2, signal }: ReplayOptions = {}
+): Promise<void> {
+  terminal.reset()
+  terminal.resize(cast.header.width, cast.header.height)
+
+  let previousTime = 0
+  for (const [time, type, data] of cast.events) {
+    const wait = Math.min(Math.max(time - previousTime, 0), maxIdle) / speed
+    previousTime = time
+
+    if (wait > 0) await delay(wait * 1000, signal)
+    if (signal?.aborted) return
+
+    if (type === "o") {
+      await writeAsync(terminal, data)
+    } else if (type === "r") {
+      const [cols, rows] = data.split("x").map(Number)
+      if (cols > 0 && rows > 0) terminal.resize(cols, rows)
+    }
+  }
+}
@@ -1,3 +1,6 @@
+import GithubSlugger from "github-slugger"
+import type { Heading } from "@/types/docs/topicItem"
+
 // Utilities for cleaning and sanitizing documentation text
 
 /**
@@ -22,3 +25,37 @@ export function sanitizeDocText(desc?: string): string | undefined {
 
   return cleaned.length > 0 ? cleaned : undefined
 }
+
+/** Plain text of a single line of markdown, e.g. a heading. */
+export function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/`([^`]+)`/g, "$1") // Unwrap `code` to code
+    .replace(/\[([^\]]+)\]\([^\)]+\)/g, "$1") // Unwrap [link](url) to link
+    .replace(/[*_]{1,2}([^*_]+)[*_]{1,2}/g, "$1") // Unwrap **bold** to bold
+}
+
+/**
+ * Headings of a markdown document outside code blocks, with the ids the renderer gives them.
+ */
+export function extractHeadings(markdown: string): Heading[] {
+  const lines = markdown.split(/\r?\n/)
+  const headings: Heading[] = []
+  const slugger = new GithubSlugger()
+  let inCodeBlock = false
+
+  for (const line of lines) {
+    if (line.trim().startsWith("```")) {
+      inCodeBlock = !inCodeBlock
+      continue
+    }
+    if (inCodeBlock) continue
+
+    const match = line.match(/^\s*(#{1,4})\s+(.+)$/)
+    if (match) {
+      const level = match[1].length
+      const rawTitle = match[2].trim()
+      headings.push({ level, title: rawTitle, id: slugger.slug(stripInlineMarkdown(rawTitle)) })
+    }
+  }
+  return headings
+}
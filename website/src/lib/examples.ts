@@ -0,0 +1,11 @@
+// Example files live in src/RazorConsole.Website/Components/ and are named `{Component}_{n}.razor`.
+// The file name without extension is used both as the xterm element id and as the key
+// for Registry.RegisterComponent on the WASM side.
+export function getExampleId(fileName: string): string {
+  return fileName.replace(/\.razor$/, "")
+}
+
+// URL fragment used to deep-link to a specific example tab, e.g. `#select_2`
+export function getExampleHash(fileName: string): string {
+  return getExampleId(fileName).toLowerCase()
+}
@@ -0,0 +1,57 @@
+import type { MetaDescriptor } from "react-router"
+import { getFullSitePath } from "./utils"
+
+// Size of every generated card, as announced in the og:image meta tags
+export const OG_IMAGE_WIDTH = 1200
+export const OG_IMAGE_HEIGHT = 630
+
+// 32-bit FNV-1a, enough to tell apart the few ids that sanitize to the same name
+function hashId(id: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < id.length; i++) {
+    hash ^= id.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0")
+}
+
+// API uids contain characters like `<`, `(` and `,` that do not belong in file names. Replacing them loses
+// information (`Foo(Int32)` and `Foo{Int32}` both become `Foo_Int32_`), so such names also get a hash of the id.
+// Percent-encoding would keep them apart, but static hosts decode the URL before looking up the file.
+function toFileName(id: string): string {
+  const name = id.replace(/[^\w.-]+/g, "_")
+  return name === id ? name : `${name}-${hashId(id)}`
+}
+
+/** Path of the title card of a docs topic or release note, relative to the site root. */
+export function getDocsOgImagePath(topicId: string): string {
+  return `/og/docs/${toFileName(topicId)}.png`
+}
+
+/** Path of the title card of an API reference page, relative to the site root. */
+export function getApiOgImagePath(uid: string): string {
+  return `/og/api/${toFileName(uid)}.png`
+}
+
+function isImageDescriptor(descriptor: MetaDescriptor): boolean {
+  const { property, name } = descriptor as { property?: unknown; name?: unknown }
+  const key = typeof property === "string" ? property : typeof name === "string" ? name : ""
+  return /^(og|twitter):image/.test(key)
+}
+
+/**
+ * Swaps the default preview image of the root meta for a generated card. `imagePath` is one of the paths
+ * above, which `npm run gen:og` renders at build time.
+ */
+export function withOgImage(rootMeta: MetaDescriptor[], imagePath: string): MetaDescriptor[] {
+  const image = `${getFullSitePath()}${imagePath}`
+  return [
+    ...rootMeta.filter((descriptor) => !isImageDescriptor(descriptor)),
+    { property: "og:image", content: image },
+    { property: "og:image:width", content: String(OG_IMAGE_WIDTH) },
+    { property: "og:image:height", content: String(OG_IMAGE_HEIGHT) },
+    { name: "twitter:image", content: image },
+    { property: "twitter:image:width", content: String(OG_IMAGE_WIDTH) },
+    { property: "twitter:image:height", content: String(OG_IMAGE_HEIGHT) },
+  ]
+}
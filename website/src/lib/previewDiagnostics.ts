@@ -0,0 +1,44 @@
+import type { PreviewDiagnostic } from "@/lib/razorConsoleWorkerProtocol"
+
+export type PreviewDiagnosticEntry = PreviewDiagnostic & {
+  // milliseconds since the page was loaded (performance.now())
+  time: number
+}
+
+// Oldest entries are dropped so a preview with a running animation does not grow without bound
+const MAX_ENTRIES = 500
+const EMPTY: readonly PreviewDiagnosticEntry[] = []
+
+const diagnostics = new Map<string, readonly PreviewDiagnosticEntry[]>()
+const listeners = new Set<() => void>()
+
+function notify(): void {
+  listeners.forEach((listener) => listener())
+}
+
+/** Appends an entry to the diagnostics of a preview. */
+export function recordDiagnostic(elementId: string, diagnostic: PreviewDiagnostic): void {
+  const entries = diagnostics.get(elementId) ?? EMPTY
+  const next = [...entries.slice(entries.length >= MAX_ENTRIES ? 1 : 0), { ...diagnostic, time: performance.now() }]
+  diagnostics.set(elementId, next)
+  notify()
+}
+
+/** Returns the recorded diagnostics of a preview, oldest first. The array is replaced, never mutated, on every change. */
+export function getDiagnostics(elementId: string): readonly PreviewDiagnosticEntry[] {
+  return diagnostics.get(elementId) ?? EMPTY
+}
+
+export function clearDiagnostics(elementId: string): void {
+  if (diagnostics.delete(elementId)) {
+    notify()
+  }
+}
+
+/** Calls `listener` whenever the diagnostics of any preview change. Returns a function that unsubscribes. */
+export function subscribeDiagnostics(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
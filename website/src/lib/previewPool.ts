@@ -0,0 +1,131 @@
+import { setComponentSuspended } from "@/lib/xtermConsole"
+
+// Upper bound of previews holding a .NET renderer at the same time. Visible previews are never
+// evicted, so the pool only grows beyond this while more previews than that are on screen.
+export const MAX_LIVE_PREVIEWS = 4
+
+// Start mounting a little before the preview scrolls into view
+const ROOT_MARGIN = "200px 0px"
+
+interface PooledPreview {
+  elementId: string
+  element: Element
+  visible: boolean
+  live: boolean
+  lastVisibleAt: number
+  onLiveChange: (live: boolean) => void
+}
+
+const previews = new Map<string, PooledPreview>()
+let observer: IntersectionObserver | null = null
+let listeningForVisibility = false
+
+function isPageHidden(): boolean {
+  return typeof document !== "undefined" && document.visibilityState === "hidden"
+}
+
+function applySuspension(preview: PooledPreview): void {
+  if (!preview.live) return
+  void setComponentSuspended(preview.elementId, !preview.visible || isPageHidden()).catch((err) => {
+    console.warn(`Failed to update suspension of '${preview.elementId}':`, err)
+  })
+}
+
+function setLive(preview: PooledPreview, live: boolean): void {
+  if (preview.live === live) return
+  preview.live = live
+  preview.onLiveChange(live)
+}
+
+// Releases the offscreen previews that have been out of view the longest until the pool fits again
+function evictOverflow(): void {
+  const live = [...previews.values()].filter((preview) => preview.live)
+  const evictable = live
+    .filter((preview) => !preview.visible)
+    .sort((a, b) => a.lastVisibleAt - b.lastVisibleAt)
+
+  let overflow = live.length - MAX_LIVE_PREVIEWS
+  for (const preview of evictable) {
+    if (overflow <= 0) break
+    setLive(preview, false)
+    overflow--
+  }
+}
+
+function handleIntersection(entries: IntersectionObserverEntry[]): void {
+  for (const entry of entries) {
+    const preview = [...previews.values()].find((p) => p.element === entry.target)
+    if (!preview) continue
+
+    preview.visible = entry.isIntersecting
+    if (preview.visible) {
+      preview.lastVisibleAt = performance.now()
+      if (!preview.live) {
+        setLive(preview, true)
+        evictOverflow()
+        continue
+      }
+    }
+    applySuspension(preview)
+  }
+}
+
+function handleVisibilityChange(): void {
+  previews.forEach(applySuspension)
+}
+
+function getObserver(): IntersectionObserver {
+  if (observer === null) {
+    observer = new IntersectionObserver(handleIntersection, { rootMargin: ROOT_MARGIN })
+  }
+  if (!listeningForVisibility) {
+    document.addEventListener("visibilitychange", handleVisibilityChange)
+    listeningForVisibility = true
+  }
+  return observer
+}
+
+/**
+ * Adds a preview to the pool. `onLiveChange(true)` is called once the element scrolls into view and
+ * the preview may start its renderer; `onLiveChange(false)` when it has to release it again.
+ * Returns a function that removes the preview from the pool.
+ */
+export function addToPreviewPool(
+  elementId: string,
+  element: Element,
+  onLiveChange: (live: boolean) => void
+): () => void {
+  const preview: PooledPreview = {
+    elementId,
+    element,
+    visible: false,
+    live: false,
+    lastVisibleAt: 0,
+    onLiveChange,
+  }
+  previews.set(elementId, preview)
+  getObserver().observe(element)
+
+  return () => {
+    observer?.unobserve(element)
+    if (previews.get(elementId) === preview) {
+      previews.delete(elementId)
+    }
+
+    if (previews.size === 0) {
+      observer?.disconnect()
+      observer = null
+      document.removeEventListener("visibilitychange", handleVisibilityChange)
+      listeningForVisibility = false
+    }
+  }
+}
+
+/**
+ * Re-applies the suspension state once a preview has (re-)registered its renderer, which may
+ * have happened after it was scrolled out of view again.
+ */
+export function syncPreviewSuspension(elementId: string): void {
+  const preview = previews.get(elementId)
+  if (preview) applySuspension(preview)
+}
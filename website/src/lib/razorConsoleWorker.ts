@@ -0,0 +1,101 @@
+// Hosts the .NET WASM runtime off the main thread so rendering heavy previews does not block
+// scrolling and input. Started by xtermConsole.ts; see razorConsoleWorkerProtocol.ts for the messages.
+import type { WasmExports } from "razor-console"
+import type {
+  ComponentError,
+  PreviewDiagnostic,
+  RuntimeLoadProgress,
+  RuntimeRequest,
+  RuntimeRequestMessage,
+  RuntimeResponseMessage,
+} from "@/lib/razorConsoleWorkerProtocol"
+import type FocusRegions from "@/types/components/focusRegions"
+
+function post(message: RuntimeResponseMessage): void {
+  self.postMessage(message)
+}
+
+// main.js forwards the JSImport callbacks of the runtime to this object; output, diagnostics, focus regions
+// and crashes are sent to the main thread, which owns the terminals. Everything else about the terminals is handled there.
+;(globalThis as { razorConsoleTerminal?: unknown }).razorConsoleTerminal = {
+  init: async () => {},
+  write: (elementId: string, text: string) => post({ type: "write-output", elementId, text }),
+  clear: () => {},
+  dispose: () => {},
+  attachKeyListener: () => {},
+  reportError: (elementId: string, error: ComponentError) => post({ type: "component-error", elementId, error }),
+  reportDiagnostic: (elementId: string, diagnostic: PreviewDiagnostic) =>
+    post({ type: "diagnostic", elementId, diagnostic }),
+  reportFocusRegions: (elementId: string, regions: FocusRegions) =>
+    post({ type: "focus-regions", elementId, regions }),
+}
+
+let exportsPromise: Promise<WasmExports> | null = null
+
+function getExports(): Promise<WasmExports> {
+  if (exportsPromise === null) {
+    exportsPromise = import("razor-console")
+      .then(({ createRuntimeAndGetExports }) =>
+        createRuntimeAndGetExports((progress: RuntimeLoadProgress) => post({ type: "progress", progress }))
+      )
+      .catch((err) => {
+        exportsPromise = null
+        post({ type: "runtime-failed", message: err instanceof Error ? err.message : String(err) })
+        throw err
+      })
+  }
+  return exportsPromise
+}
+
+async function handleRequest(request: RuntimeRequest): Promise<unknown> {
+  const { Registry } = await getExports()
+
+  switch (request.type) {
+    case "register":
+      return Registry.RegisterComponent(request.elementId, request.cols, request.rows)
+    case "dispose":
+      return Registry.UnregisterComponent(request.elementId)
+    case "suspend":
+      return Registry.SetComponentSuspended(request.elementId, request.suspended)
+    case "key":
+      return Registry.HandleKeyboardEvent(
+        request.elementId,
+        request.xtermKey,
+        request.domKey,
+        request.ctrlKey,
+        request.altKey,
+        request.shiftKey
+      )
+    case "text":
+      return Registry.HandleTextInput(request.elementId, request.text)
+    case "mouse":
+      return Registry.HandleMouseEvent(
+        request.elementId,
+        request.eventType,
+        request.column,
+        request.row,
+        request.wheelDelta,
+        request.ctrlKey,
+        request.altKey,
+        request.shiftKey
+      )
+    case "resize":
+      return Registry.HandleResize(request.elementId, request.cols, request.rows)
+    case "get-parameters":
+      return Registry.GetComponentParameters(request.elementId)
+    case "set-parameters":
+      return Registry.SetComponentParameters(request.elementId, request.parametersJson)
+    case "get-vdom":
+      return Registry.GetVdomSnapshot(request.elementId)
+    case "focus-overlay":
+      return Registry.SetFocusOverlay(request.elementId, request.enabled)
+  }
+}
+
+self.addEventListener("message", (event: MessageEvent<RuntimeRequestMessage>) => {
+  const { id, ...request } = event.data
+  handleRequest(request).then(
+    (value) => post({ type: "result", id, value }),
+    (err) => post({ type: "error", id, message: err instanceof Error ? err.message : String(err) })
+  )
+})
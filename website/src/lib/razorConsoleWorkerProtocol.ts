@@ -0,0 +1,89 @@
+// Messages exchanged between xtermConsole.ts on the main thread and the worker hosting the .NET runtime
+import type FocusRegions from "@/types/components/focusRegions"
+
+/** Requests from the main thread; each is answered with a `result` or `error` message carrying its id. */
+export type RuntimeRequest =
+  | { type: "register"; elementId: string; cols: number; rows: number }
+  | { type: "dispose"; elementId: string }
+  | { type: "suspend"; elementId: string; suspended: boolean }
+  | {
+      type: "key"
+      elementId: string
+      xtermKey: string
+      domKey: string
+      ctrlKey: boolean
+      altKey: boolean
+      shiftKey: boolean
+    }
+  | { type: "text"; elementId: string; text: string }
+  | {
+      type: "mouse"
+      elementId: string
+      eventType: "click" | "wheel" | "move"
+      column: number
+      row: number
+      wheelDelta: number
+      ctrlKey: boolean
+      altKey: boolean
+      shiftKey: boolean
+    }
+  | { type: "resize"; elementId: string; cols: number; rows: number }
+  | { type: "get-parameters"; elementId: string }
+  | { type: "set-parameters"; elementId: string; parametersJson: string }
+  | { type: "get-vdom"; elementId: string }
+  | { type: "focus-overlay"; elementId: string; enabled: boolean }
+
+export type RuntimeRequestMessage = RuntimeRequest & { id: number }
+
+/** Download progress of a single `_framework` asset; mirrors `RuntimeAssetProgress` in main.d.ts. */
+export interface RuntimeAssetProgress {
+  name: string
+  loadedBytes: number
+  // null when the server did not send a content-length
+  totalBytes: number | null
+}
+
+/** Progress of starting the runtime; mirrors `RuntimeLoadProgress` in main.d.ts. */
+export interface RuntimeLoadProgress {
+  stage: "download" | "start" | "ready"
+  asset: RuntimeAssetProgress | null
+  loadedBytes: number
+  totalBytes: number
+  loadedAssets: number
+  totalAssets: number
+}
+
+/** An unhandled exception thrown by a preview component inside the runtime. */
+export interface ComponentError {
+  // full name of the .NET exception type, e.g. "System.InvalidOperationException"
+  exceptionType: string
+  message: string
+  stackTrace: string
+}
+
+/**
+ * Detail a renderer reports for the diagnostics drawer of its preview. `resize` is recorded on the main thread.
+ */
+export type PreviewDiagnostic =
+  // a line the component or the renderer wrote with Console.Write
+  | { kind: "stdout"; line: string }
+  // a forwarded key and the ConsoleKeyInfo it was translated to
+  | { kind: "key"; domKey: string; consoleKey: string; keyChar: string; modifiers: string }
+  | { kind: "resize"; cols: number; rows: number }
+  // time spent laying out and writing a frame, and the length of the ANSI output
+  | { kind: "render"; durationMs: number; length: number }
+
+/**
+ * Messages from the worker: terminal output, diagnostics and crashes of a renderer, runtime startup and
+ * answers to requests.
+ */
+export type RuntimeResponseMessage =
+  | { type: "write-output"; elementId: string; text: string }
+  | { type: "component-error"; elementId: string; error: ComponentError }
+  | { type: "diagnostic"; elementId: string; diagnostic: PreviewDiagnostic }
+  // sent after frames and focus changes while the focus overlay of the preview is enabled
+  | { type: "focus-regions"; elementId: string; regions: FocusRegions }
+  | { type: "progress"; progress: RuntimeLoadProgress }
+  | { type: "runtime-failed"; message: string }
+  | { type: "result"; id: number; value?: unknown }
+  | { type: "error"; id: number; message: string }
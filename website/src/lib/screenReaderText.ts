@@ -0,0 +1,90 @@
+/** Text of a preview for assistive technology. */
+export type ScreenReaderText = {
+  // the visible lines of the terminal, without trailing spaces
+  lines: readonly string[]
+  // lines that changed since the previous announcement, read out by the live region of the preview
+  announcement: string
+}
+
+// frames of an animation are collected into one announcement instead of interrupting each other
+const ANNOUNCE_DELAY_MS = 500
+const EMPTY: ScreenReaderText = { lines: [], announcement: "" }
+
+const texts = new Map<string, ScreenReaderText>()
+const pendingLines = new Map<string, Map<number, string>>()
+const timers = new Map<string, ReturnType<typeof setTimeout>>()
+const listeners = new Set<() => void>()
+
+function notify(): void {
+  listeners.forEach((listener) => listener())
+}
+
+function setText(elementId: string, text: ScreenReaderText): void {
+  texts.set(elementId, text)
+  notify()
+}
+
+/**
+ * Stores the screen of a preview after a frame and queues the lines that differ from the previous frame.
+ * Only previews with keyboard focus announce anything, so a page full of animated previews stays quiet;
+ * the first frame is never announced because the text alternative already describes it.
+ */
+export function updateScreenReaderText(elementId: string, lines: string[], hasFocus: boolean): void {
+  const previous = texts.get(elementId)
+  const isUnchanged =
+    previous?.lines.length === lines.length && previous.lines.every((line, row) => line === lines[row])
+  if (isUnchanged) return
+
+  if (previous && hasFocus) {
+    const pending = pendingLines.get(elementId) ?? new Map<number, string>()
+    lines.forEach((line, row) => {
+      if (line !== previous.lines[row] && line.trim() !== "") pending.set(row, line)
+    })
+    pendingLines.set(elementId, pending)
+    if (pending.size > 0 && !timers.has(elementId)) {
+      timers.set(elementId, setTimeout(() => announce(elementId), ANNOUNCE_DELAY_MS))
+    }
+  }
+
+  setText(elementId, { lines, announcement: previous?.announcement ?? "" })
+}
+
+function announce(elementId: string): void {
+  timers.delete(elementId)
+  const pending = pendingLines.get(elementId)
+  pendingLines.delete(elementId)
+  const text = texts.get(elementId)
+  if (!pending || !text) return
+
+  // lines that changed back in the meantime are no longer news
+  const changed = [...pending.entries()]
+    .sort(([a], [b]) => a - b)
+    .filter(([row, line]) => text.lines[row] === line)
+    .map(([, line]) => line.trim())
+  if (changed.length === 0) return
+
+  setText(elementId, { ...text, announcement: changed.join("\n") })
+}
+
+/** Returns the text of a preview. The object is replaced, never mutated, on every change. */
+export function getScreenReaderText(elementId: string): ScreenReaderText {
+  return texts.get(elementId) ?? EMPTY
+}
+
+export function clearScreenReaderText(elementId: string): void {
+  const timer = timers.get(elementId)
+  if (timer !== undefined) clearTimeout(timer)
+  timers.delete(elementId)
+  pendingLines.delete(elementId)
+  if (texts.delete(elementId)) {
+    notify()
+  }
+}
+
+/** Calls `listener` whenever the text of any preview changes. Returns a function that unsubscribes. */
+export function subscribeScreenReaderText(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
@@ -0,0 +1,115 @@
+import {
+  captureSnapshot,
+  toAnsi,
+  toHtml,
+  toPlainText,
+  toSvg,
+  type SnapshotTerminal,
+  type SnapshotTextOptions,
+  type TerminalSnapshot,
+} from "@/lib/terminalSnapshot"
+import type { TerminalColors } from "@/lib/terminalTheme"
+
+export type SnapshotFormat = "svg" | "png" | "html" | "ansi" | "txt"
+
+export const SNAPSHOT_FORMATS: readonly { id: SnapshotFormat; label: string; description: string }[] = [
+  { id: "svg", label: "SVG", description: "Vector image" },
+  { id: "png", label: "PNG", description: "Image at twice the screen resolution" },
+  { id: "html", label: "HTML", description: "Standalone page with inline styles" },
+  { id: "ansi", label: "ANSI", description: "Escape sequences for another terminal" },
+  { id: "txt", label: "Text", description: "Plain text without styles" },
+]
+
+const MIME_TYPES: Record<SnapshotFormat, string> = {
+  svg: "image/svg+xml",
+  png: "image/png",
+  html: "text/html",
+  ansi: "text/plain",
+  txt: "text/plain",
+}
+
+// shared with `scripts/render-preview.ts`, so exports from the site and the CLI look the same
+export const SNAPSHOT_TEXT_OPTIONS: SnapshotTextOptions = { fontSize: 14, lineHeight: 1.2, padding: 16 }
+export const PNG_SCALE = 2
+
+const REVOKE_DELAY_MS = 10_000
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new Error("The snapshot could not be rendered as an image."))
+    image.src = url
+  })
+}
+
+// rasterizes the SVG export, so both images look the same
+async function toPng(snapshot: TerminalSnapshot): Promise<Blob> {
+  const svg = toSvg(snapshot, SNAPSHOT_TEXT_OPTIONS)
+  const url = URL.createObjectURL(new Blob([svg], { type: MIME_TYPES.svg }))
+  try {
+    const image = await loadImage(url)
+    const canvas = document.createElement("canvas")
+    canvas.width = image.width * PNG_SCALE
+    canvas.height = image.height * PNG_SCALE
+    const context = canvas.getContext("2d")
+    if (!context) throw new Error("Canvas rendering is not available.")
+    context.drawImage(image, 0, 0, canvas.width, canvas.height)
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("The PNG could not be encoded."))), MIME_TYPES.png)
+    })
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+/** Converts the visible screen of a terminal to `format`. */
+export async function createSnapshot(
+  term: SnapshotTerminal,
+  colors: TerminalColors,
+  format: SnapshotFormat,
+  title: string
+): Promise<Blob> {
+  const snapshot = captureSnapshot(term, colors)
+  const options = SNAPSHOT_TEXT_OPTIONS
+
+  switch (format) {
+    case "svg":
+      return new Blob([toSvg(snapshot, options)], { type: MIME_TYPES.svg })
+    case "png":
+      return toPng(snapshot)
+    case "html":
+      return new Blob([toHtml(snapshot, title, options)], { type: MIME_TYPES.html })
+    case "ansi":
+      return new Blob([toAnsi(snapshot)], { type: MIME_TYPES.ansi })
+    case "txt":
+      return new Blob([toPlainText(snapshot)], { type: MIME_TYPES.txt })
+  }
+}
+
+export function downloadSnapshot(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  // the download starts after the click returns, and fails when the URL is already revoked
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS)
+}
+
+/**
+ * Copies a snapshot to the clipboard: PNG as an image, text formats as text. SVG and HTML are copied as their
+ * source so they can be pasted into files and Markdown.
+ */
+export async function copySnapshot(blob: Blob, format: SnapshotFormat): Promise<void> {
+  if (format === "png") {
+    await navigator.clipboard.write([new ClipboardItem({ [MIME_TYPES.png]: blob })])
+  } else {
+    await navigator.clipboard.writeText(await blob.text())
+  }
+}
+
+export function getSnapshotFileName(elementId: string, format: SnapshotFormat): string {
+  return `${elementId}-${Date.now()}.${format}`
+}
@@ -0,0 +1,43 @@
+// Terminal sizes a preview can be pinned to instead of fitting its container
+
+export interface TerminalSize {
+  cols: number
+  rows: number
+}
+
+export const SIZE_PRESETS: readonly TerminalSize[] = [
+  { cols: 40, rows: 12 },
+  { cols: 80, rows: 24 },
+  { cols: 120, rows: 40 },
+]
+
+// bounds of custom sizes, whether typed in or dragged with the resize handles
+export const MIN_SIZE: TerminalSize = { cols: 20, rows: 5 }
+export const MAX_SIZE: TerminalSize = { cols: 300, rows: 100 }
+
+// widths the responsive mode renders an example at, side by side
+export const RESPONSIVE_COLUMNS: readonly number[] = [40, 60, 80]
+export const RESPONSIVE_ROWS = 24
+
+// the renderer re-lays out the whole component on every resize, so bursts are coalesced
+export const RESIZE_DEBOUNCE_MS = 100
+
+export function clampSize({ cols, rows }: TerminalSize): TerminalSize {
+  return {
+    cols: Math.min(MAX_SIZE.cols, Math.max(MIN_SIZE.cols, Math.round(cols))),
+    rows: Math.min(MAX_SIZE.rows, Math.max(MIN_SIZE.rows, Math.round(rows))),
+  }
+}
+
+export function formatSize({ cols, rows }: TerminalSize): string {
+  return `${cols}×${rows}`
+}
+
+export function isPreset(size: TerminalSize): boolean {
+  return SIZE_PRESETS.some((preset) => preset.cols === size.cols && preset.rows === size.rows)
+}
+
+/** Element id of an instance of an example rendered at a fixed width, e.g. "Table_1@60". */
+export function getSizedInstanceId(exampleId: string, cols: number): string {
+  return `${exampleId}@${cols}`
+}
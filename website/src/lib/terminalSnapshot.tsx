@@ -0,0 +1,332 @@
+// Reads the screen of an xterm terminal cell by cell and turns it into SVG, HTML, ANSI, plain text or the
+// satori markup of the generated OG images. Shared by the export menu of live previews and the build scripts,
+// so like terminalTheme.ts it is kept free of path aliases and browser APIs.
+import type { CSSProperties, ReactElement } from "react"
+import { getAnsiColor, type TerminalColors } from "./terminalTheme"
+
+/** The parts of an xterm buffer cell the snapshot reads; implemented by `xterm` and `@xterm/headless`. */
+export interface SnapshotCell {
+  getChars(): string
+  getWidth(): number
+  getFgColor(): number
+  getBgColor(): number
+  isFgDefault(): boolean
+  isFgRGB(): boolean
+  isBgDefault(): boolean
+  isBgRGB(): boolean
+  isBold(): number
+  isItalic(): number
+  isUnderline(): number
+  isDim(): number
+  isInverse(): number
+}
+
+export interface SnapshotLine {
+  getCell(x: number): SnapshotCell | undefined
+}
+
+export interface SnapshotTerminal {
+  cols: number
+  rows: number
+  buffer: { active: { viewportY: number; getLine(y: number): SnapshotLine | undefined } }
+}
+
+/** Consecutive cells of a line that share their style. */
+export interface SnapshotRun {
+  text: string
+  // first cell of the run
+  column: number
+  // cells covered, which differs from the length of `text` for wide characters
+  width: number
+  // null for the default color of the terminal
+  fg: string | null
+  bg: string | null
+  bold: boolean
+  italic: boolean
+  underline: boolean
+  dim: boolean
+}
+
+export interface TerminalSnapshot {
+  cols: number
+  rows: number
+  foreground: string
+  background: string
+  lines: SnapshotRun[][]
+}
+
+function toHex(value: number): string {
+  return `#${(value & 0xffffff).toString(16).padStart(6, "0")}`
+}
+
+function resolveColor(colors: TerminalColors, isDefault: boolean, isRgb: boolean, value: number): string | null {
+  if (isDefault) return null
+  return isRgb ? toHex(value) : getAnsiColor(colors, value)
+}
+
+function isSameStyle(a: SnapshotRun, b: Omit<SnapshotRun, "text" | "column" | "width">): boolean {
+  return (
+    a.fg === b.fg &&
+    a.bg === b.bg &&
+    a.bold === b.bold &&
+    a.italic === b.italic &&
+    a.underline === b.underline &&
+    a.dim === b.dim
+  )
+}
+
+/** Reads the visible screen of a terminal into runs of equally styled cells, one list per line. */
+export function captureSnapshot(term: SnapshotTerminal, colors: TerminalColors): TerminalSnapshot {
+  const buffer = term.buffer.active
+  const lines: SnapshotRun[][] = []
+
+  for (let y = 0; y < term.rows; y++) {
+    const line = buffer.getLine(buffer.viewportY + y)
+    const runs: SnapshotRun[] = []
+    lines.push(runs)
+    if (!line) continue
+
+    for (let x = 0; x < term.cols; x++) {
+      const cell = line.getCell(x)
+      // the second half of a wide character has no content of its own
+      if (!cell || cell.getWidth() === 0) continue
+
+      let fg = resolveColor(colors, cell.isFgDefault(), cell.isFgRGB(), cell.getFgColor())
+      let bg = resolveColor(colors, cell.isBgDefault(), cell.isBgRGB(), cell.getBgColor())
+      if (cell.isInverse()) {
+        ;[fg, bg] = [bg ?? colors.background, fg ?? colors.foreground]
+      }
+      const style = {
+        fg,
+        bg,
+        bold: !!cell.isBold(),
+        italic: !!cell.isItalic(),
+        underline: !!cell.isUnderline(),
+        dim: !!cell.isDim(),
+      }
+      const text = cell.getChars() || " "
+      const width = cell.getWidth()
+
+      const last = runs.at(-1)
+      if (last && isSameStyle(last, style)) {
+        last.text += text
+        last.width += width
+      } else {
+        runs.push({ ...style, text, column: x, width })
+      }
+    }
+  }
+
+  return { cols: term.cols, rows: term.rows, foreground: colors.foreground, background: colors.background, lines }
+}
+
+/** The screen as text, without trailing spaces and blank lines. */
+export function toPlainText(snapshot: TerminalSnapshot): string {
+  const lines = snapshot.lines.map((runs) => runs.map((run) => run.text).join("").trimEnd())
+  while (lines.length > 0 && lines[lines.length - 1] === "") lines.pop()
+  return lines.join("\n")
+}
+
+function toRgbParameters(color: string): string {
+  const value = parseInt(color.slice(1), 16)
+  return `${(value >> 16) & 0xff};${(value >> 8) & 0xff};${value & 0xff}`
+}
+
+/** The screen as ANSI escape sequences with 24-bit colors, e.g. for `cat` in another terminal. */
+export function toAnsi(snapshot: TerminalSnapshot): string {
+  return snapshot.lines
+    .map((runs) => {
+      const text = runs
+        .map((run) => {
+          const parameters = ["0"]
+          if (run.bold) parameters.push("1")
+          if (run.dim) parameters.push("2")
+          if (run.italic) parameters.push("3")
+          if (run.underline) parameters.push("4")
+          if (run.fg) parameters.push(`38;2;${toRgbParameters(run.fg)}`)
+          if (run.bg) parameters.push(`48;2;${toRgbParameters(run.bg)}`)
+          return `\x1b[${parameters.join(";")}m${run.text}`
+        })
+        .join("")
+      return `${text}\x1b[0m`
+    })
+    .join("\n")
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`)
+}
+
+function getInlineStyle(run: SnapshotRun): string {
+  const declarations: string[] = []
+  if (run.fg) declarations.push(`color:${run.fg}`)
+  if (run.bg) declarations.push(`background-color:${run.bg}`)
+  if (run.bold) declarations.push("font-weight:bold")
+  if (run.italic) declarations.push("font-style:italic")
+  if (run.underline) declarations.push("text-decoration:underline")
+  if (run.dim) declarations.push("opacity:0.5")
+  return declarations.join(";")
+}
+
+export interface SnapshotTextOptions {
+  fontFamily?: string
+  fontSize?: number
+  // height of a line relative to the font size
+  lineHeight?: number
+  // space around the screen in pixels
+  padding?: number
+}
+
+const DEFAULT_FONT_FAMILY = "'Cascadia Code', 'Fira Code', Consolas, 'Courier New', monospace"
+
+/** A standalone HTML document with the screen in a `<pre>` and every style inlined. */
+export function toHtml(snapshot: TerminalSnapshot, title: string, options: SnapshotTextOptions = {}): string {
+  const { fontFamily = DEFAULT_FONT_FAMILY, fontSize = 14, lineHeight = 1.2, padding = 16 } = options
+  const body = snapshot.lines
+    .map((runs) =>
+      runs
+        .map((run) => {
+          const style = getInlineStyle(run)
+          return style ? `<span style="${style}">${escapeXml(run.text)}</span>` : escapeXml(run.text)
+        })
+        .join("")
+    )
+    .join("\n")
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(title)}</title>
+</head>
+<body style="margin:0;background:${snapshot.background}">
+<pre style="margin:0;padding:${padding}px;color:${snapshot.foreground};background:${snapshot.background};font-family:${escapeXml(fontFamily)};font-size:${fontSize}px;line-height:${lineHeight};font-variant-ligatures:none">${body}</pre>
+</body>
+</html>
+`
+}
+
+// advance of a cell relative to the font size; true for the common monospace fonts
+const CELL_WIDTH_RATIO = 0.6
+
+/**
+ * An SVG image of the screen on the terminal background. Every run is stretched to its cells, so the grid
+ * stays aligned whatever monospace font the viewer substitutes.
+ */
+export function toSvg(snapshot: TerminalSnapshot, options: SnapshotTextOptions = {}): string {
+  const { fontFamily = DEFAULT_FONT_FAMILY, fontSize = 14, lineHeight = 1.2, padding = 16 } = options
+  const cellWidth = fontSize * CELL_WIDTH_RATIO
+  const cellHeight = fontSize * lineHeight
+  const width = Math.ceil(snapshot.cols * cellWidth + padding * 2)
+  const height = Math.ceil(snapshot.rows * cellHeight + padding * 2)
+
+  const backgrounds: string[] = []
+  const texts: string[] = []
+  snapshot.lines.forEach((runs, row) => {
+    const top = padding + row * cellHeight
+    for (const run of runs) {
+      const left = padding + run.column * cellWidth
+      const runWidth = run.width * cellWidth
+      if (run.bg) {
+        backgrounds.push(
+          `<rect x="${left}" y="${top}" width="${runWidth}" height="${cellHeight}" fill="${run.bg}"/>`
+        )
+      }
+      if (run.text.trim() === "") continue
+
+      const attributes = [
+        `x="${left}"`,
+        `y="${top + cellHeight / 2}"`,
+        `textLength="${runWidth}"`,
+        `lengthAdjust="spacingAndGlyphs"`,
+      ]
+      if (run.fg) attributes.push(`fill="${run.fg}"`)
+      if (run.bold) attributes.push(`font-weight="bold"`)
+      if (run.italic) attributes.push(`font-style="italic"`)
+      if (run.underline) attributes.push(`text-decoration="underline"`)
+      if (run.dim) attributes.push(`opacity="0.5"`)
+      texts.push(`<text ${attributes.join(" ")}>${escapeXml(run.text)}</text>`)
+    }
+  })
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+<rect width="100%" height="100%" fill="${snapshot.background}"/>
+${backgrounds.join("\n")}
+<g font-family="${escapeXml(fontFamily)}" font-size="${fontSize}" fill="${snapshot.foreground}" dominant-baseline="central" xml:space="preserve">
+${texts.join("\n")}
+</g>
+</svg>
+`
+}
+
+export interface SnapshotMarkupOptions {
+  fontFamily: string
+  fontSize: number
+  // line height in pixels
+  lineHeight: number
+  // pixel width of `text` in the given CSS font; satori needs explicit widths to keep runs on the grid
+  measureText: (text: string, font: string) => number
+}
+
+/** The screen as rows of absolutely sized spans, the flexbox subset satori understands. */
+export function renderTerminalToJSX(snapshot: TerminalSnapshot, options: SnapshotMarkupOptions): ReactElement[] {
+  return snapshot.lines.map((runs, y) => (
+    <div
+      key={y}
+      style={{
+        display: "flex",
+        flexDirection: "row",
+        height: `${options.lineHeight}px`,
+        width: "auto",
+        backgroundColor: snapshot.background,
+        margin: 0,
+        padding: 0,
+        alignItems: "stretch",
+        justifyContent: "flex-start",
+        overflow: "hidden",
+      }}
+    >
+      {runs.map((run) => createSpan(run, snapshot, options, y))}
+    </div>
+  ))
+}
+
+function createSpan(
+  run: SnapshotRun,
+  snapshot: TerminalSnapshot,
+  { fontFamily, fontSize, lineHeight, measureText }: SnapshotMarkupOptions,
+  y: number
+): ReactElement {
+  const font = `${run.italic ? "italic " : ""}${run.bold ? "bold " : ""}${fontSize}px "${fontFamily}"`
+  const measured = measureText(run.text, font)
+  const exactWidth = measured > 0 ? measured : run.width * fontSize * CELL_WIDTH_RATIO
+
+  const style: CSSProperties = {
+    color: run.fg ?? snapshot.foreground,
+    backgroundColor: run.bg ?? "transparent",
+    display: "block",
+    width: `${exactWidth}px`,
+    height: `${lineHeight}px`,
+    lineHeight: `${lineHeight}px`,
+    fontFamily,
+    fontSize: `${fontSize}px`,
+    fontWeight: run.bold ? "bold" : "normal",
+    fontStyle: run.italic ? "italic" : "normal",
+    textDecoration: run.underline ? "underline" : "none",
+    opacity: run.dim ? 0.5 : 1,
+    whiteSpace: "pre",
+    margin: 0,
+    padding: 0,
+    flexShrink: 0,
+    flexGrow: 0,
+    fontVariantLigatures: "none",
+    fontFeatureSettings: '"liga" 0, "calt" 0',
+    textAlign: "left",
+  }
+
+  return (
+    <span key={`${y}-${run.column}`} style={style}>
+      {run.text}
+    </span>
+  )
+}
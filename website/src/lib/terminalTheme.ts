@@ -0,0 +1,260 @@
+// Terminal color palettes shared by live previews, recorded session playback and generated images.
+// Kept free of path aliases and browser APIs so build scripts can import it directly.
+
+export interface TerminalColors {
+  background: string
+  foreground: string
+  cursor: string
+  selectionBackground: string
+  black: string
+  red: string
+  green: string
+  yellow: string
+  blue: string
+  magenta: string
+  cyan: string
+  white: string
+  brightBlack: string
+  brightRed: string
+  brightGreen: string
+  brightYellow: string
+  brightBlue: string
+  brightMagenta: string
+  brightCyan: string
+  brightWhite: string
+}
+
+export interface TerminalPalette {
+  id: TerminalPaletteId
+  label: string
+  isDark: boolean
+  colors: TerminalColors
+}
+
+export type TerminalPaletteId =
+  | "vscode-dark"
+  | "vscode-light"
+  | "solarized-dark"
+  | "solarized-light"
+  | "dracula"
+  | "high-contrast"
+
+// "auto" follows the site theme: VS Code Dark in dark mode, VS Code Light in light mode
+export type TerminalPaletteSelection = TerminalPaletteId | "auto"
+
+export const DEFAULT_DARK_PALETTE: TerminalPaletteId = "vscode-dark"
+export const DEFAULT_LIGHT_PALETTE: TerminalPaletteId = "vscode-light"
+
+const VSCODE_ANSI = {
+  red: "#cd3131",
+  green: "#0dbc79",
+  yellow: "#e5e510",
+  blue: "#2472c8",
+  magenta: "#bc3fbc",
+  cyan: "#11a8cd",
+  white: "#e5e5e5",
+  brightBlack: "#666666",
+  brightRed: "#cd3131",
+  brightGreen: "#14ce96",
+  brightYellow: "#f5f543",
+  brightBlue: "#3b8eea",
+  brightMagenta: "#d670d6",
+  brightCyan: "#29b8db",
+  brightWhite: "#a8a8a8",
+}
+
+const SOLARIZED_ANSI = {
+  black: "#073642",
+  red: "#dc322f",
+  green: "#859900",
+  yellow: "#b58900",
+  blue: "#268bd2",
+  magenta: "#d33682",
+  cyan: "#2aa198",
+  white: "#eee8d5",
+  brightBlack: "#002b36",
+  brightRed: "#cb4b16",
+  brightGreen: "#586e75",
+  brightYellow: "#657b83",
+  brightBlue: "#839496",
+  brightMagenta: "#6c71c4",
+  brightCyan: "#93a1a1",
+  brightWhite: "#fdf6e3",
+}
+
+export const TERMINAL_PALETTES: Record<TerminalPaletteId, TerminalPalette> = {
+  "vscode-dark": {
+    id: "vscode-dark",
+    label: "VS Code Dark",
+    isDark: true,
+    colors: {
+      background: "#1e1e1e",
+      foreground: "#cccccc",
+      cursor: "#ffffff",
+      selectionBackground: "rgba(255, 255, 255, 0.15)",
+      black: "#000000",
+      ...VSCODE_ANSI,
+    },
+  },
+  "vscode-light": {
+    id: "vscode-light",
+    label: "VS Code Light",
+    isDark: false,
+    colors: {
+      background: "#fafafa",
+      foreground: "#383a42",
+      cursor: "#383a42",
+      selectionBackground: "rgba(0, 0, 0, 0.15)",
+      black: "#383a42",
+      ...VSCODE_ANSI,
+    },
+  },
+  "solarized-dark": {
+    id: "solarized-dark",
+    label: "Solarized Dark",
+    isDark: true,
+    colors: {
+      background: "#002b36",
+      foreground: "#839496",
+      cursor: "#93a1a1",
+      selectionBackground: "rgba(147, 161, 161, 0.2)",
+      ...SOLARIZED_ANSI,
+    },
+  },
+  "solarized-light": {
+    id: "solarized-light",
+    label: "Solarized Light",
+    isDark: false,
+    colors: {
+      background: "#fdf6e3",
+      foreground: "#657b83",
+      cursor: "#586e75",
+      selectionBackground: "rgba(88, 110, 117, 0.2)",
+      ...SOLARIZED_ANSI,
+    },
+  },
+  dracula: {
+    id: "dracula",
+    label: "Dracula",
+    isDark: true,
+    colors: {
+      background: "#282a36",
+      foreground: "#f8f8f2",
+      cursor: "#f8f8f2",
+      selectionBackground: "rgba(68, 71, 90, 0.8)",
+      black: "#21222c",
+      red: "#ff5555",
+      green: "#50fa7b",
+      yellow: "#f1fa8c",
+      blue: "#bd93f9",
+      magenta: "#ff79c6",
+      cyan: "#8be9fd",
+      white: "#f8f8f2",
+      brightBlack: "#6272a4",
+      brightRed: "#ff6e6e",
+      brightGreen: "#69ff94",
+      brightYellow: "#ffffa5",
+      brightBlue: "#d6acff",
+      brightMagenta: "#ff92df",
+      brightCyan: "#a4ffff",
+      brightWhite: "#ffffff",
+    },
+  },
+  "high-contrast": {
+    id: "high-contrast",
+    label: "High Contrast",
+    isDark: true,
+    colors: {
+      background: "#000000",
+      foreground: "#ffffff",
+      cursor: "#ffffff",
+      selectionBackground: "rgba(255, 255, 255, 0.35)",
+      black: "#000000",
+      red: "#ff4d4d",
+      green: "#00ff66",
+      yellow: "#ffff00",
+      blue: "#66a3ff",
+      magenta: "#ff66ff",
+      cyan: "#00ffff",
+      white: "#ffffff",
+      brightBlack: "#b3b3b3",
+      brightRed: "#ff8080",
+      brightGreen: "#80ffaa",
+      brightYellow: "#ffff80",
+      brightBlue: "#99c2ff",
+      brightMagenta: "#ff99ff",
+      brightCyan: "#80ffff",
+      brightWhite: "#ffffff",
+    },
+  },
+}
+
+export function isTerminalPaletteSelection(value: unknown): value is TerminalPaletteSelection {
+  return value === "auto" || (typeof value === "string" && Object.hasOwn(TERMINAL_PALETTES, value))
+}
+
+export function getTerminalPalette(id: TerminalPaletteId): TerminalPalette {
+  return TERMINAL_PALETTES[id]
+}
+
+export function resolveTerminalPalette(
+  selection: TerminalPaletteSelection,
+  isDark: boolean
+): TerminalPalette {
+  if (selection === "auto") {
+    return TERMINAL_PALETTES[isDark ? DEFAULT_DARK_PALETTE : DEFAULT_LIGHT_PALETTE]
+  }
+  return TERMINAL_PALETTES[selection]
+}
+
+function toHex(r: number, g: number, b: number): string {
+  return `#${[r, g, b].map((c) => c.toString(16).padStart(2, "0")).join("")}`
+}
+
+/** Returns the color of an xterm 256-color index; the first 16 come from the palette. */
+export function getAnsiColor(colors: TerminalColors, index: number): string {
+  if (index < 16) {
+    const named = [
+      colors.black,
+      colors.red,
+      colors.green,
+      colors.yellow,
+      colors.blue,
+      colors.magenta,
+      colors.cyan,
+      colors.white,
+      colors.brightBlack,
+      colors.brightRed,
+      colors.brightGreen,
+      colors.brightYellow,
+      colors.brightBlue,
+      colors.brightMagenta,
+      colors.brightCyan,
+      colors.brightWhite,
+    ]
+    return named[index] ?? colors.foreground
+  }
+  if (index < 232) {
+    const i = index - 16
+    return toHex(Math.floor(i / 36) * 51, Math.floor((i % 36) / 6) * 51, (i % 6) * 51)
+  }
+  const gray = (index - 232) * 10 + 8
+  return toHex(gray, gray, gray)
+}
+
+/**
+ * Resolves a cell color as returned by xterm's `IBufferCell.getFgColor()`/`getBgColor()`.
+ * The default background resolves to "transparent" so the terminal background shows through.
+ */
+export function resolveCellColor(colors: TerminalColors, colorValue: number, isForeground: boolean): string {
+  if (colorValue === -1 || (colorValue >= 0x01000000 && (colorValue & 0xffffff) === 0)) {
+    return isForeground ? colors.foreground : "transparent"
+  }
+
+  const value = colorValue & 0xffffff
+  if (value > 255) {
+    return toHex((value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff)
+  }
+
+  return getAnsiColor(colors, value)
+}
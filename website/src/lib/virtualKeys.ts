@@ -0,0 +1,141 @@
+// Keys and modifiers of the on-screen key bar that lets touch devices send what their soft keyboards lack
+
+export type Modifier = "ctrl" | "alt" | "shift"
+
+export type Modifiers = Readonly<Record<Modifier, boolean>>
+
+/** A key event as xterm reports it: the data it would send and the key of the DOM event. */
+export interface KeyEvent {
+  xtermKey: string
+  domKey: string
+  ctrlKey: boolean
+  altKey: boolean
+  shiftKey: boolean
+}
+
+export interface VirtualKey {
+  domKey: string
+  label: string
+  // accessible name when the label is a symbol
+  title: string
+}
+
+export const VIRTUAL_KEYS: readonly VirtualKey[] = [
+  { domKey: "Escape", label: "Esc", title: "Escape" },
+  { domKey: "Tab", label: "Tab", title: "Tab" },
+  { domKey: "ArrowLeft", label: "←", title: "Left arrow" },
+  { domKey: "ArrowUp", label: "↑", title: "Up arrow" },
+  { domKey: "ArrowDown", label: "↓", title: "Down arrow" },
+  { domKey: "ArrowRight", label: "→", title: "Right arrow" },
+  { domKey: "Enter", label: "↵", title: "Enter" },
+  { domKey: "Home", label: "Home", title: "Home" },
+  { domKey: "End", label: "End", title: "End" },
+  { domKey: "PageUp", label: "PgUp", title: "Page up" },
+  { domKey: "PageDown", label: "PgDn", title: "Page down" },
+]
+
+export const MODIFIERS: readonly { id: Modifier; label: string }[] = [
+  { id: "ctrl", label: "Ctrl" },
+  { id: "alt", label: "Alt" },
+  { id: "shift", label: "Shift" },
+]
+
+// final byte of the CSI sequence xterm sends for keys that take a modifier parameter
+const CSI_KEYS: Record<string, string> = {
+  ArrowUp: "A",
+  ArrowDown: "B",
+  ArrowRight: "C",
+  ArrowLeft: "D",
+  Home: "H",
+  End: "F",
+}
+
+const TILDE_KEYS: Record<string, string> = {
+  PageUp: "5",
+  PageDown: "6",
+  Delete: "3",
+}
+
+const FIXED_KEYS: Record<string, string> = {
+  Escape: "\x1b",
+  Enter: "\r",
+  Backspace: "\x7f",
+}
+
+function getModifierParameter({ ctrl, alt, shift }: Modifiers): number {
+  return 1 + (shift ? 1 : 0) + (alt ? 2 : 0) + (ctrl ? 4 : 0)
+}
+
+function getKeyData(domKey: string, modifiers: Modifiers): string {
+  const parameter = getModifierParameter(modifiers)
+
+  if (domKey === "Tab") return modifiers.shift ? "\x1b[Z" : "\t"
+  if (domKey in FIXED_KEYS) return FIXED_KEYS[domKey]
+  if (domKey in CSI_KEYS) {
+    return parameter > 1 ? `\x1b[1;${parameter}${CSI_KEYS[domKey]}` : `\x1b[${CSI_KEYS[domKey]}`
+  }
+  if (domKey in TILDE_KEYS) {
+    return parameter > 1 ? `\x1b[${TILDE_KEYS[domKey]};${parameter}~` : `\x1b[${TILDE_KEYS[domKey]}~`
+  }
+
+  // a printable character
+  let data = modifiers.shift ? domKey.toUpperCase() : domKey
+  if (modifiers.ctrl && /^[a-z]$/i.test(data)) {
+    // Ctrl+A is 0x01 … Ctrl+Z is 0x1a
+    data = String.fromCharCode(data.toUpperCase().charCodeAt(0) - 64)
+  }
+  return modifiers.alt ? `\x1b${data}` : data
+}
+
+/**
+ * Builds the event xterm would report for `domKey` pressed with `modifiers`, so keys from the key bar take the
+ * same path to the renderer as a physical keyboard. `domKey` is a DOM key name or a single character.
+ */
+export function createKeyEvent(domKey: string, modifiers: Modifiers): KeyEvent {
+  return {
+    xtermKey: getKeyData(domKey, modifiers),
+    domKey: domKey.length === 1 && modifiers.shift ? domKey.toUpperCase() : domKey,
+    ctrlKey: modifiers.ctrl,
+    altKey: modifiers.alt,
+    shiftKey: modifiers.shift,
+  }
+}
+
+// Modifiers toggled on the key bar apply to the next key of that preview, from the bar or the soft keyboard
+const NO_MODIFIERS: Modifiers = { ctrl: false, alt: false, shift: false }
+const stickyModifiers = new Map<string, Modifiers>()
+const listeners = new Set<() => void>()
+
+function setStickyModifiers(elementId: string, modifiers: Modifiers): void {
+  if (modifiers.ctrl || modifiers.alt || modifiers.shift) {
+    stickyModifiers.set(elementId, modifiers)
+  } else if (!stickyModifiers.delete(elementId)) {
+    return
+  }
+  listeners.forEach((listener) => listener())
+}
+
+/** Returns the modifiers toggled for a preview. The object is replaced, never mutated, on every change. */
+export function getStickyModifiers(elementId: string): Modifiers {
+  return stickyModifiers.get(elementId) ?? NO_MODIFIERS
+}
+
+export function toggleStickyModifier(elementId: string, modifier: Modifier): void {
+  const modifiers = getStickyModifiers(elementId)
+  setStickyModifiers(elementId, { ...modifiers, [modifier]: !modifiers[modifier] })
+}
+
+/** Returns the modifiers toggled for a preview and releases them. */
+export function consumeStickyModifiers(elementId: string): Modifiers {
+  const modifiers = getStickyModifiers(elementId)
+  setStickyModifiers(elementId, NO_MODIFIERS)
+  return modifiers
+}
+
+/** Calls `listener` whenever a modifier is toggled or released. Returns a function that unsubscribes. */
+export function subscribeStickyModifiers(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
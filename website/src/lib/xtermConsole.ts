@@ -1,5 +1,11 @@
 import type { Terminal, IDisposable, ITerminalOptions, ITheme } from "xterm"
 import "xterm/css/xterm.css"
+import { recordEvent, startRecording, stopRecording } from "@/lib/asciicast"
+import { recordDiagnostic } from "@/lib/previewDiagnostics"
+import { consumeStickyModifiers, createKeyEvent, getStickyModifiers } from "@/lib/virtualKeys"
+import { clearScreenReaderText, updateScreenReaderText } from "@/lib/screenReaderText"
+import { captureSnapshot, toAnsi } from "@/lib/terminalSnapshot"
+import type { TerminalColors } from "@/lib/terminalTheme"
 
 type TerminalConstructor = typeof Terminal
 type TerminalType = InstanceType<typeof Terminal>
@@ -16,6 +22,9 @@ export type RazorConsoleTerminalApi = {
   clear: (elementId: string) => void
   dispose: (elementId: string) => void
   attachKeyListener: (elementId: string, helper: DotNetHelper) => void
+  reportError: (elementId: string, error: ComponentError) => void
+  reportDiagnostic: (elementId: string, diagnostic: PreviewDiagnostic) => void
+  reportFocusRegions: (elementId: string, regions: FocusRegions) => void
 }
 
 declare global {
@@ -27,6 +36,31 @@ declare global {
 
 const terminals = new Map<string, TerminalType>()
 const keyHandlers = new Map<string, IDisposable>()
+const textHandlers = new Map<string, IDisposable>()
+const mouseHandlers = new Map<string, IDisposable>()
+const touchHandlers = new Map<string, IDisposable>()
+const highlights = new Map<string, IDisposable[]>()
+const focusDecorations = new Map<string, IDisposable[]>()
+
+export type MouseEventType = "click" | "wheel" | "move"
+
+// DECSET 1002 (report presses, releases, wheel and motion while a button is held) + 1006 (SGR encoded reports);
+// motion without a button (1003) would post every pointer move to the worker
+const ENABLE_MOUSE_TRACKING = "\x1b[?1002h\x1b[?1006h"
+// DECSET 2004: xterm wraps pasted text in ESC[200~ ... ESC[201~
+const ENABLE_BRACKETED_PASTE = "\x1b[?2004h"
+const PASTE_START = "\x1b[200~"
+const PASTE_END = "\x1b[201~"
+const MOUSE_REPORT_PREFIX = "\x1b[<"
+// SGR mouse report: CSI < button ; column ; row (M = press/motion, m = release)
+// eslint-disable-next-line no-control-regex
+const SGR_MOUSE_REPORT = /\x1b\[<(\d+);(\d+);(\d+)([Mm])/g
+// pixels a finger has to travel before a touch counts as a swipe rather than a tap
+const SWIPE_DISTANCE = 24
+// wheel ticks sent for a single vertical swipe at most
+const MAX_SWIPE_TICKS = 10
+// a second Escape within this time moves focus out of a preview instead of reaching the component
+const EXIT_KEY_INTERVAL_MS = 500
 
 const defaultOptions: TerminalOptions = {
   convertEol: true,
@@ -115,10 +149,39 @@ export async function initTerminal(elementId: string, options?: TerminalOptions)
   return terminal
 }
 
+/**
+ * Starts recording the session of a preview. The recording opens with the current screen, so a replay does
+ * not start blank when the component only redraws after input.
+ */
+export function startTerminalRecording(elementId: string, colors: TerminalColors): void {
+  const terminal = getExistingTerminal(elementId)
+  startRecording(elementId, terminal.cols, terminal.rows)
+  const screen = toAnsi(captureSnapshot(terminal, colors)).replace(/\n/g, "\r\n")
+  recordEvent(elementId, "o", `\x1b[H\x1b[2J${screen}`)
+}
+
 export function writeToTerminal(elementId: string, text: string): void {
   if (typeof text !== "string" || text.length === 0) return
   const terminal = getExistingTerminal(elementId)
-  terminal.write(text)
+  terminal.write(text, () => {
+    // every frame starts with a clear, which removes the decorations of the previous one
+    if (focusOverlays.get(elementId)?.enabled) drawFocusOverlay(elementId)
+    updateScreenReaderText(elementId, readScreenLines(terminal), hasTerminalFocus(terminal))
+  })
+  recordEvent(elementId, "o", text)
+}
+
+function readScreenLines(terminal: TerminalType): string[] {
+  const buffer = terminal.buffer.active
+  const lines: string[] = []
+  for (let y = 0; y < terminal.rows; y++) {
+    lines.push(buffer.getLine(buffer.viewportY + y)?.translateToString(true) ?? "")
+  }
+  return lines
+}
+
+function hasTerminalFocus(terminal: TerminalType): boolean {
+  return terminal.textarea !== undefined && document.activeElement === terminal.textarea
 }
 
 export function clearTerminal(elementId: string): void {
@@ -130,9 +193,35 @@ export function attachKeyListener(elementId: string, helper: DotNetHelper): void
   const terminal = getExistingTerminal(elementId)
 
   keyHandlers.get(elementId)?.dispose()
+  textHandlers.get(elementId)?.dispose()
+  terminal.write(ENABLE_BRACKETED_PASTE)
+
+  // xterm emits onKey and then onData with the same string for every key press; onData alone
+  // carries pastes, IME compositions and dead-key results
+  let keyData: string | null = null
+
+  // a character typed while modifiers are toggled on the key bar becomes a chord, e.g. Ctrl+C
+  const sendChord = (char: string): boolean => {
+    const modifiers = getStickyModifiers(elementId)
+    if (char.length !== 1 || !(modifiers.ctrl || modifiers.alt || modifiers.shift)) return false
+
+    const event = createKeyEvent(char, consumeStickyModifiers(elementId))
+    recordEvent(elementId, "i", event.xtermKey)
+    void helper.invokeMethodAsync(
+      "HandleKeyboardEvent",
+      elementId,
+      event.xtermKey,
+      event.domKey,
+      event.ctrlKey,
+      event.altKey,
+      event.shiftKey
+    )
+    return true
+  }
 
   const subscription = terminal.onKey(async (event) => {
     const { key, domEvent } = event
+    keyData = key
     const { ctrlKey, metaKey, key: domKey } = domEvent
 
     // Handle Ctrl+C (or Cmd+C on Mac) - Copy selected text
@@ -152,11 +241,8 @@ export function attachKeyListener(elementId: string, helper: DotNetHelper): void
       try {
         const text = await navigator.clipboard.readText()
         if (text) {
-          console.debug("Pasting from clipboard:", text)
-          // Send each character individually to WASM
-          for (const char of text) {
-            await helper.invokeMethodAsync("HandleKeyboardEvent", elementId, char, char, false, false, false)
-          }
+          // goes through xterm's paste handling and arrives in onData as a bracketed paste
+          terminal.paste(text)
         }
       } catch (err) {
         console.warn("Failed to paste from clipboard:", err)
@@ -164,6 +250,9 @@ export function attachKeyListener(elementId: string, helper: DotNetHelper): void
       return
     }
 
+    if (!ctrlKey && !metaKey && sendChord(domKey)) return
+
+    recordEvent(elementId, "i", key)
     void helper.invokeMethodAsync(
       "HandleKeyboardEvent",
       elementId,
@@ -175,12 +264,288 @@ export function attachKeyListener(elementId: string, helper: DotNetHelper): void
     )
   })
 
+  const textSubscription = terminal.onData((data) => {
+    if (data === keyData) {
+      keyData = null
+      return
+    }
+    keyData = null
+    if (data.startsWith(MOUSE_REPORT_PREFIX)) return
+    // soft keyboards often only report characters through onData
+    if (sendChord(data)) return
+
+    const text = data.startsWith(PASTE_START)
+      ? data.slice(PASTE_START.length, data.endsWith(PASTE_END) ? -PASTE_END.length : undefined)
+      : data
+    if (!text) return
+
+    recordEvent(elementId, "i", data)
+    void helper.invokeMethodAsync("HandleTextInput", elementId, text)
+  })
+
   keyHandlers.set(elementId, subscription)
+  textHandlers.set(elementId, textSubscription)
+}
+
+/**
+ * Turns on mouse tracking and forwards clicks, wheel ticks and drags as zero-based cells
+ * relative to the first rendered line, which is what the renderer lays out against.
+ */
+export function attachMouseListener(elementId: string, helper: DotNetHelper): void {
+  const terminal = getExistingTerminal(elementId)
+
+  mouseHandlers.get(elementId)?.dispose()
+  terminal.write(ENABLE_MOUSE_TRACKING)
+
+  let pressed = false
+  const subscription = terminal.onData((data) => {
+    for (const match of data.matchAll(SGR_MOUSE_REPORT)) {
+      const code = Number(match[1])
+      const column = Number(match[2]) - 1
+      // the renderer clears the scrollback before each frame, so buffer lines map to rendered lines
+      const row = terminal.buffer.active.viewportY + Number(match[3]) - 1
+      const isRelease = match[4] === "m"
+      const modifiers = [(code & 16) !== 0, (code & 8) !== 0, (code & 4) !== 0] as const
+
+      let type: MouseEventType | null = null
+      let wheelDelta = 0
+      if (code & 64) {
+        type = "wheel"
+        wheelDelta = code & 1 ? 1 : -1
+      } else if (code & 32) {
+        type = "move"
+      } else if ((code & 3) === 0) {
+        // left button: report a click once it is released
+        if (!isRelease) {
+          pressed = true
+        } else if (pressed) {
+          pressed = false
+          type = "click"
+        }
+      }
+
+      if (type === null) continue
+      void helper.invokeMethodAsync("HandleMouseEvent", elementId, type, column, row, wheelDelta, ...modifiers)
+    }
+  })
+
+  mouseHandlers.set(elementId, subscription)
+}
+
+/**
+ * Turns swipes on a focused terminal into input: horizontal swipes send ArrowLeft/ArrowRight, vertical swipes
+ * scroll the element under the finger with wheel ticks, one per line travelled. Swipes on a terminal without
+ * focus scroll the page as usual, so the first tap focuses the preview.
+ */
+export function attachTouchListener(elementId: string, helper: DotNetHelper): void {
+  const terminal = getExistingTerminal(elementId)
+  const element = terminal.element
+  touchHandlers.get(elementId)?.dispose()
+  if (!element) return
+
+  let start: { x: number; y: number } | null = null
+
+  const handleTouchStart = (event: TouchEvent) => {
+    const touch = event.touches[0]
+    start =
+      event.touches.length === 1 && hasTerminalFocus(terminal)
+        ? { x: touch.clientX, y: touch.clientY }
+        : null
+  }
+
+  const handleTouchMove = (event: TouchEvent) => {
+    // keeps the page still while the finger drives the preview
+    if (start) event.preventDefault()
+  }
+
+  const handleTouchEnd = (event: TouchEvent) => {
+    const touch = event.changedTouches[0]
+    if (!start || !touch) return
+
+    const dx = touch.clientX - start.x
+    const dy = touch.clientY - start.y
+    const origin = start
+    start = null
+    if (Math.max(Math.abs(dx), Math.abs(dy)) < SWIPE_DISTANCE) return
+
+    if (Math.abs(dx) > Math.abs(dy)) {
+      const key = createKeyEvent(dx > 0 ? "ArrowRight" : "ArrowLeft", consumeStickyModifiers(elementId))
+      recordEvent(elementId, "i", key.xtermKey)
+      void helper.invokeMethodAsync(
+        "HandleKeyboardEvent",
+        elementId,
+        key.xtermKey,
+        key.domKey,
+        key.ctrlKey,
+        key.altKey,
+        key.shiftKey
+      )
+      return
+    }
+
+    const screen = element.querySelector(".xterm-screen") ?? element
+    const rect = screen.getBoundingClientRect()
+    const cellWidth = rect.width / terminal.cols
+    const cellHeight = rect.height / terminal.rows
+    const column = Math.min(terminal.cols - 1, Math.max(0, Math.floor((origin.x - rect.left) / cellWidth)))
+    const row =
+      terminal.buffer.active.viewportY +
+      Math.min(terminal.rows - 1, Math.max(0, Math.floor((origin.y - rect.top) / cellHeight)))
+    // like touch scrolling, moving the finger up reveals what is further down
+    const wheelDelta = dy < 0 ? 1 : -1
+    const ticks = Math.min(MAX_SWIPE_TICKS, Math.max(1, Math.round(Math.abs(dy) / cellHeight)))
+    for (let tick = 0; tick < ticks; tick++) {
+      void helper.invokeMethodAsync(
+        "HandleMouseEvent",
+        elementId,
+        "wheel",
+        column,
+        row,
+        wheelDelta,
+        false,
+        false,
+        false
+      )
+    }
+  }
+
+  element.addEventListener("touchstart", handleTouchStart, { passive: true })
+  element.addEventListener("touchmove", handleTouchMove, { passive: false })
+  element.addEventListener("touchend", handleTouchEnd, { passive: true })
+  touchHandlers.set(elementId, {
+    dispose: () => {
+      element.removeEventListener("touchstart", handleTouchStart)
+      element.removeEventListener("touchmove", handleTouchMove)
+      element.removeEventListener("touchend", handleTouchEnd)
+    },
+  })
+}
+
+/**
+ * Gives keyboard users a way out of a preview: xterm keeps Tab and Shift+Tab in the terminal, where they move
+ * focus between the component's elements, so pressing Escape twice calls `onExit` instead. The first Escape
+ * still reaches the component.
+ */
+export function attachFocusExit(elementId: string, onExit: () => void): void {
+  const terminal = getExistingTerminal(elementId)
+  let lastEscape = -Infinity
+
+  terminal.attachCustomKeyEventHandler((event) => {
+    if (event.type !== "keydown" || event.key !== "Escape" || event.ctrlKey || event.altKey || event.metaKey) {
+      return true
+    }
+    if (event.timeStamp - lastEscape > EXIT_KEY_INTERVAL_MS) {
+      lastEscape = event.timeStamp
+      return true
+    }
+
+    lastEscape = -Infinity
+    event.preventDefault()
+    onExit()
+    return false
+  })
+}
+
+/**
+ * Outlines cells of a terminal, e.g. the element selected in the VDOM inspector, replacing its previous highlight.
+ * Rows are relative to the first rendered line; the renderer clears the scrollback before each frame, so they
+ * are buffer lines. Pass an empty list to remove the highlight.
+ */
+export function highlightCells(elementId: string, spans: CellSpan[]): void {
+  highlights.get(elementId)?.forEach((disposable) => disposable.dispose())
+  highlights.delete(elementId)
+
+  const terminal = terminals.get(elementId)
+  if (!terminal || spans.length === 0) return
+
+  const disposables = decorateCells(terminal, spans, (element) => {
+    element.style.pointerEvents = "none"
+    element.style.backgroundColor = "rgba(59, 130, 246, 0.3)"
+    element.style.outline = "1px solid rgb(59, 130, 246)"
+  })
+  highlights.set(elementId, disposables)
+}
+
+/**
+ * Adds a decoration over every span; `style` is called whenever xterm renders one, with the index of its span.
+ * Returns the decorations and their markers, which must be disposed together.
+ */
+function decorateCells(
+  terminal: TerminalType,
+  spans: CellSpan[],
+  style: (element: HTMLElement, index: number) => void
+): IDisposable[] {
+  const buffer = terminal.buffer.active
+  const cursorLine = buffer.baseY + buffer.cursorY
+  return spans.flatMap(([row, column, width], index) => {
+    // markers are placed relative to the line of the cursor
+    const marker = terminal.registerMarker(row - cursorLine)
+    if (!marker) return []
+    const decoration = terminal.registerDecoration({ marker, x: column, width, layer: "top" })
+    if (!decoration) return [marker]
+    decoration.onRender((element) => style(element, index))
+    return [decoration, marker]
+  })
+}
+
+/**
+ * Redraws the focus overlay of a preview from its last reported regions: a dashed outline around every
+ * focusable element, a filled one around the focused element and its Tab-order number on its first cells.
+ */
+function drawFocusOverlay(elementId: string): void {
+  focusDecorations.get(elementId)?.forEach((disposable) => disposable.dispose())
+  focusDecorations.delete(elementId)
+
+  const terminal = terminals.get(elementId)
+  const regions = focusOverlays.get(elementId)?.regions
+  if (!terminal || !regions) return
+
+  const disposables = regions.targets.flatMap((target) => {
+    const isFocused = target.key === regions.focusKey
+    const color = isFocused ? "rgb(245, 158, 11)" : "rgb(148, 163, 184)"
+    return decorateCells(terminal, target.spans, (element, index) => {
+      element.style.pointerEvents = "none"
+      element.style.overflow = "visible"
+      element.style.outline = isFocused ? `2px solid ${color}` : `1px dashed ${color}`
+      element.style.backgroundColor = isFocused ? "rgba(245, 158, 11, 0.2)" : ""
+      if (index > 0 || element.firstChild) return
+
+      const badge = document.createElement("span")
+      badge.textContent = String(target.order + 1)
+      Object.assign(badge.style, {
+        position: "absolute",
+        top: "-7px",
+        left: "-7px",
+        minWidth: "14px",
+        height: "14px",
+        padding: "0 3px",
+        borderRadius: "7px",
+        background: color,
+        color: "#0f172a",
+        font: "bold 9px/14px sans-serif",
+        textAlign: "center",
+      })
+      element.appendChild(badge)
+    })
+  })
+  focusDecorations.set(elementId, disposables)
 }
 
 export function disposeTerminal(elementId: string): void {
+  highlightCells(elementId, [])
+  focusDecorations.get(elementId)?.forEach((disposable) => disposable.dispose())
+  focusDecorations.delete(elementId)
   keyHandlers.get(elementId)?.dispose()
   keyHandlers.delete(elementId)
+  textHandlers.get(elementId)?.dispose()
+  textHandlers.delete(elementId)
+  mouseHandlers.get(elementId)?.dispose()
+  mouseHandlers.delete(elementId)
+  touchHandlers.get(elementId)?.dispose()
+  touchHandlers.delete(elementId)
+
+  stopRecording(elementId)
+  clearScreenReaderText(elementId)
 
   const terminal = terminals.get(elementId)
   if (terminal) {
@@ -202,6 +567,9 @@ async function ensureGlobalApi(): Promise<void> {
     attachKeyListener: (elementId, helper) => {
       attachKeyListener(elementId, helper)
     },
+    reportError: setComponentError,
+    reportDiagnostic: recordDiagnostic,
+    reportFocusRegions: setFocusRegions,
   }
 
   window.razorConsoleTerminal = api
@@ -211,20 +579,239 @@ if (typeof window !== "undefined") {
   ensureGlobalApi()
 }
 
-import type { WasmExports } from "razor-console"
-let wasmExportsPromise: Promise<WasmExports> | null = null
+import type PlaygroundParameter from "@/types/components/playgroundParameter"
+import type VdomSnapshot from "@/types/components/vdomSnapshot"
+import type { CellSpan } from "@/types/components/vdomSnapshot"
+import type FocusRegions from "@/types/components/focusRegions"
+import type { PlaygroundValue } from "@/types/components/playgroundParameter"
+import type {
+  ComponentError,
+  PreviewDiagnostic,
+  RuntimeLoadProgress,
+  RuntimeRequest,
+  RuntimeRequestMessage,
+  RuntimeResponseMessage,
+} from "@/lib/razorConsoleWorkerProtocol"
+
+/** State of the shared .NET runtime: not started, loading or ready, or failed to start. */
+export type RuntimeStatus =
+  | { stage: "idle" }
+  | RuntimeLoadProgress
+  | { stage: "failed"; message: string }
+
+type PendingRequest = {
+  resolve: (value: unknown) => void
+  reject: (reason: Error) => void
+}
+
+// The .NET runtime runs in a worker (see razorConsoleWorker.ts); requests are answered in order
+let runtimeWorker: Worker | null = null
+let nextRequestId = 0
+const pendingRequests = new Map<number, PendingRequest>()
+
+const IDLE_STATUS: RuntimeStatus = { stage: "idle" }
+let runtimeStatus: RuntimeStatus = IDLE_STATUS
+const runtimeStatusListeners = new Set<() => void>()
+
+function setRuntimeStatus(status: RuntimeStatus): void {
+  runtimeStatus = status
+  runtimeStatusListeners.forEach((listener) => listener())
+}
+
+/** Returns the current state of the runtime. The object is replaced, never mutated, on every change. */
+export function getRuntimeStatus(): RuntimeStatus {
+  return runtimeStatus
+}
+
+/** Calls `listener` whenever the runtime status changes. Returns a function that unsubscribes. */
+export function subscribeRuntimeStatus(listener: () => void): () => void {
+  runtimeStatusListeners.add(listener)
+  return () => {
+    runtimeStatusListeners.delete(listener)
+  }
+}
+
+const componentErrors = new Map<string, ComponentError>()
+const componentErrorListeners = new Set<() => void>()
+
+function setComponentError(elementId: string, error: ComponentError | null): void {
+  if (error === null) {
+    if (!componentErrors.delete(elementId)) return
+  } else {
+    componentErrors.set(elementId, error)
+  }
+  componentErrorListeners.forEach((listener) => listener())
+}
+
+/**
+ * Returns the exception that crashed the renderer of a preview, or null while it is running.
+ * Cleared when the component is registered again or disposed.
+ */
+export function getComponentError(elementId: string): ComponentError | null {
+  return componentErrors.get(elementId) ?? null
+}
+
+/** Calls `listener` whenever a preview crashes or a crash is cleared. Returns a function that unsubscribes. */
+export function subscribeComponentErrors(listener: () => void): () => void {
+  componentErrorListeners.add(listener)
+  return () => {
+    componentErrorListeners.delete(listener)
+  }
+}
+
+/** Focus overlay of a preview: whether it is shown and the regions the renderer reported last. */
+export type FocusOverlay = { enabled: boolean; regions: FocusRegions | null }
+
+const DISABLED_FOCUS_OVERLAY: FocusOverlay = { enabled: false, regions: null }
+const focusOverlays = new Map<string, FocusOverlay>()
+const focusOverlayListeners = new Set<() => void>()
+
+function updateFocusOverlay(elementId: string, overlay: FocusOverlay): void {
+  if (overlay.enabled) {
+    focusOverlays.set(elementId, overlay)
+  } else {
+    focusOverlays.delete(elementId)
+  }
+  drawFocusOverlay(elementId)
+  focusOverlayListeners.forEach((listener) => listener())
+}
+
+function setFocusRegions(elementId: string, regions: FocusRegions): void {
+  // regions can still arrive right after the overlay was turned off
+  if (!focusOverlays.get(elementId)?.enabled) return
+  updateFocusOverlay(elementId, { enabled: true, regions })
+}
+
+/** Returns the focus overlay of a preview. The object is replaced, never mutated, on every change. */
+export function getFocusOverlay(elementId: string): FocusOverlay {
+  return focusOverlays.get(elementId) ?? DISABLED_FOCUS_OVERLAY
+}
 
-async function getWasmExports(): Promise<WasmExports> {
-  if (wasmExportsPromise === null) {
-    const { createRuntimeAndGetExports } = await import("razor-console")
-    wasmExportsPromise = createRuntimeAndGetExports()
+/** Calls `listener` whenever a focus overlay is toggled or new regions arrive. Returns a function that unsubscribes. */
+export function subscribeFocusOverlays(listener: () => void): () => void {
+  focusOverlayListeners.add(listener)
+  return () => {
+    focusOverlayListeners.delete(listener)
   }
-  return wasmExportsPromise
 }
 
+/**
+ * Discards a runtime that failed to start, so the next request starts a fresh one. Without this a single
+ * network error while downloading `_framework` assets would break every preview until a full reload.
+ * Does nothing while the runtime is loading or running.
+ */
+export function retryRuntime(): void {
+  if (runtimeStatus.stage !== "failed") return
+
+  runtimeWorker?.terminate()
+  runtimeWorker = null
+  const error = new Error("The .NET runtime was restarted.")
+  pendingRequests.forEach(({ reject }) => reject(error))
+  pendingRequests.clear()
+  setRuntimeStatus(IDLE_STATUS)
+}
+
+function handleRuntimeMessage(event: MessageEvent<RuntimeResponseMessage>): void {
+  const message = event.data
+  switch (message.type) {
+    case "write-output":
+      // output can still arrive for a preview whose terminal was just disposed
+      if (terminals.has(message.elementId)) {
+        writeToTerminal(message.elementId, message.text)
+      }
+      return
+    case "component-error":
+      setComponentError(message.elementId, message.error)
+      return
+    case "diagnostic":
+      recordDiagnostic(message.elementId, message.diagnostic)
+      return
+    case "focus-regions":
+      setFocusRegions(message.elementId, message.regions)
+      return
+    case "progress":
+      setRuntimeStatus(message.progress)
+      return
+    case "runtime-failed":
+      setRuntimeStatus({ stage: "failed", message: message.message })
+      return
+    case "result":
+      pendingRequests.get(message.id)?.resolve(message.value)
+      pendingRequests.delete(message.id)
+      return
+    case "error":
+      pendingRequests.get(message.id)?.reject(new Error(message.message))
+      pendingRequests.delete(message.id)
+      return
+  }
+}
+
+function handleRuntimeError(event: ErrorEvent): void {
+  const error = new Error(event.message || "The .NET runtime worker failed to start.")
+  pendingRequests.forEach(({ reject }) => reject(error))
+  pendingRequests.clear()
+  runtimeWorker?.terminate()
+  runtimeWorker = null
+  setRuntimeStatus({ stage: "failed", message: error.message })
+}
+
+function getRuntimeWorker(): Worker {
+  if (runtimeWorker === null) {
+    runtimeWorker = new Worker(new URL("./razorConsoleWorker.ts", import.meta.url), {
+      type: "module",
+      name: "razor-console",
+    })
+    runtimeWorker.addEventListener("message", handleRuntimeMessage)
+    runtimeWorker.addEventListener("error", handleRuntimeError)
+  }
+  return runtimeWorker
+}
+
+function callRuntime<T = void>(request: RuntimeRequest): Promise<T> {
+  const id = nextRequestId++
+  return new Promise<T>((resolve, reject) => {
+    pendingRequests.set(id, { resolve: resolve as (value: unknown) => void, reject })
+    const message: RuntimeRequestMessage = { ...request, id }
+    getRuntimeWorker().postMessage(message)
+  })
+}
+
+/**
+ * Creates the renderer of a preview; its output is written to the terminal registered under the same id.
+ * Registering an id again replaces its renderer, which is how a crashed preview is restarted.
+ * Calls into C# WASM: Registry.RegisterComponent(elementId, cols, rows)
+ * @param elementId - The id of the example, also the id of the terminal element
+ * @param cols - The initial number of columns
+ * @param rows - The initial number of rows
+ */
 export async function registerComponent(elementId: string, cols: number, rows: number): Promise<void> {
-  const exports = await getWasmExports()
-  return exports.Registry.RegisterComponent(elementId, cols, rows)
+  setComponentError(elementId, null)
+  await callRuntime({ type: "register", elementId, cols, rows })
+  // a new renderer starts without the overlay, e.g. after a crashed preview was restarted
+  if (focusOverlays.get(elementId)?.enabled) {
+    updateFocusOverlay(elementId, { enabled: true, regions: null })
+    await callRuntime({ type: "focus-overlay", elementId, enabled: true })
+  }
+}
+
+/**
+ * Disposes the renderer of a preview, including its focus session and animations.
+ * Calls into C# WASM: Registry.UnregisterComponent(elementId)
+ * @param elementId - The id the component was registered with
+ */
+export async function unregisterComponent(elementId: string): Promise<void> {
+  setComponentError(elementId, null)
+  return callRuntime({ type: "dispose", elementId })
+}
+
+/**
+ * Pauses or resumes writing frames of a preview while it is not visible.
+ * Calls into C# WASM: Registry.SetComponentSuspended(elementId, suspended)
+ * @param elementId - The id the component was registered with
+ * @param suspended - Whether frames should be held back until resumed
+ */
+export async function setComponentSuspended(elementId: string, suspended: boolean): Promise<void> {
+  return callRuntime({ type: "suspend", elementId, suspended })
 }
 
 /**
@@ -241,8 +828,71 @@ export async function handleKeyboardEvent(
   componentName: string, xtermKey: string, domKey: string, 
   ctrlKey: boolean, altKey: boolean, shiftKey: boolean
 ): Promise<void> {
-  const exports = await getWasmExports()
-  return exports.Registry.HandleKeyboardEvent(componentName, xtermKey, domKey, ctrlKey, altKey, shiftKey)
+  return callRuntime({ type: "key", elementId: componentName, xtermKey, domKey, ctrlKey, altKey, shiftKey })
+}
+
+/**
+ * Sends a key from the on-screen key bar with the modifiers toggled on it, which are released afterwards.
+ * Takes the same path as keys typed into the terminal.
+ * @param componentName - The name of the component receiving the key
+ * @param domKey - A DOM key name such as "Tab" or "ArrowUp", or a single character
+ */
+export async function sendVirtualKey(componentName: string, domKey: string): Promise<void> {
+  const event = createKeyEvent(domKey, consumeStickyModifiers(componentName))
+  recordEvent(componentName, "i", event.xtermKey)
+  return handleKeyboardEvent(
+    componentName,
+    event.xtermKey,
+    event.domKey,
+    event.ctrlKey,
+    event.altKey,
+    event.shiftKey
+  )
+}
+
+/**
+ * Forwards pasted or composed text from xterm.js to the RazorConsole renderer in one call.
+ * Calls into C# WASM: Registry.HandleTextInput(componentName, text)
+ * @param componentName - The name of the component receiving the text
+ * @param text - The whole pasted or composed string
+ */
+export async function handleTextInput(componentName: string, text: string): Promise<void> {
+  return callRuntime({ type: "text", elementId: componentName, text })
+}
+
+/**
+ * Forwards a mouse event from xterm.js to the RazorConsole renderer.
+ * Calls into C# WASM: Registry.HandleMouseEvent(componentName, type, column, row, wheelDelta, ctrlKey, altKey, shiftKey)
+ * @param componentName - The name of the component receiving the event
+ * @param type - "click", "wheel" or "move"
+ * @param column - Zero-based cell column
+ * @param row - Zero-based cell row, relative to the first rendered line
+ * @param wheelDelta - Lines scrolled, positive values scroll down; 0 for other events
+ * @param ctrlKey - Whether Ctrl was held
+ * @param altKey - Whether Alt was held
+ * @param shiftKey - Whether Shift was held
+ */
+export async function handleMouseEvent(
+  componentName: string,
+  type: MouseEventType,
+  column: number,
+  row: number,
+  wheelDelta: number,
+  ctrlKey: boolean,
+  altKey: boolean,
+  shiftKey: boolean
+): Promise<void> {
+  return callRuntime({
+    type: "mouse",
+    elementId: componentName,
+    eventType: type,
+    column,
+    row,
+    wheelDelta,
+    ctrlKey,
+    altKey,
+    shiftKey,
+  })
 }
 
 /**
@@ -257,6 +907,51 @@ export async function handleResize(
   cols: number,
   rows: number
 ): Promise<void> {
-  const exports = await getWasmExports()
-  return exports.Registry.HandleResize(componentName, cols, rows)
-}
\ No newline at end of file
+  recordEvent(componentName, "r", `${cols}x${rows}`)
+  recordDiagnostic(componentName, { kind: "resize", cols, rows })
+  return callRuntime({ type: "resize", elementId: componentName, cols, rows })
+}
+/**
+ * Describes the parameters of a registered preview that can be edited from the playground.
+ * Calls into C# WASM: Registry.GetComponentParameters(componentName)
+ * @param componentName - The name of the registered component
+ */
+export async function getComponentParameters(componentName: string): Promise<PlaygroundParameter[]> {
+  const parametersJson = await callRuntime<string>({ type: "get-parameters", elementId: componentName })
+  return JSON.parse(parametersJson) as PlaygroundParameter[]
+}
+
+/**
+ * Sets parameters on a registered preview and re-renders it without reloading.
+ * Calls into C# WASM: Registry.SetComponentParameters(componentName, parametersJson)
+ * @param componentName - The name of the registered component
+ * @param parameters - Parameter values keyed by parameter name; omitted parameters keep their values
+ */
+export async function setComponentParameters(
+  componentName: string,
+  parameters: Record<string, PlaygroundValue>
+): Promise<void> {
+  return callRuntime({ type: "set-parameters", elementId: componentName, parametersJson: JSON.stringify(parameters) })
+}
+
+/**
+ * Reads the recent VDOM frames of a registered preview and the cells of its current elements.
+ * Calls into C# WASM: Registry.GetVdomSnapshot(componentName)
+ * @param componentName - The name of the registered component
+ */
+export async function getVdomSnapshot(componentName: string): Promise<VdomSnapshot> {
+  const snapshotJson = await callRuntime<string>({ type: "get-vdom", elementId: componentName })
+  return JSON.parse(snapshotJson) as VdomSnapshot
+}
+
+/**
+ * Shows or hides the focus overlay of a preview. While it is shown the renderer reports the cells of every
+ * focusable element after each frame and focus change.
+ * Calls into C# WASM: Registry.SetFocusOverlay(componentName, enabled)
+ * @param componentName - The name of the registered component
+ * @param enabled - Whether focusable regions should be outlined
+ */
+export async function setFocusOverlay(componentName: string, enabled: boolean): Promise<void> {
+  updateFocusOverlay(componentName, { enabled, regions: getFocusOverlay(componentName).regions })
+  return callRuntime({ type: "focus-overlay", elementId: componentName, enabled })
+}
@@ -5,6 +5,7 @@ import { apiItems, apiToc, type DocfxApiItem, type DocfxTocNode } from "@/data/a
 import { ResponsiveSidebar } from "@/components/ui/ResponsiveSidebar"
 import Sidebar from "@/components/api/Sidebar"
 import { getFullSitePath } from "@/lib/utils"
+import { getApiOgImagePath, withOgImage } from "@/lib/ogImages"
 
 export const meta: MetaFunction<typeof loader> = ({ data, matches, location }) => {
   const rootMeta = matches.find((m) => m.id === "root")?.meta || [];
@@ -14,7 +15,7 @@ export const meta: MetaFunction<typeof loader> = ({ data, matches, location }) =
   const title = item ? `${item.name} (${item.type}) | API Reference` : "API Reference | RazorConsole";
   
   return [
-    ...rootMeta,
+    ...(item ? withOgImage(rootMeta, getApiOgImagePath(item.uid)) : rootMeta),
     { title },
     { property: "og:url", content: pageUrl },
     { name: "description", content: item?.summary || "Full API reference for RazorConsole classes, components, and utilities." },
@@ -1,6 +1,5 @@
 import { useEffect, useState } from "react"
 import { useParams, useNavigate, useLocation, useLoaderData, type LoaderFunctionArgs } from "react-router"
-import GithubSlugger from "github-slugger"
 import { ResponsiveSidebar } from "@/components/ui/ResponsiveSidebar"
 import type { Heading } from "@/types/docs/topicItem"
 import Sidebar from "@/components/docs/Sidebar"
@@ -9,6 +8,8 @@ import { docTopicIds, releaseNoteIds } from "@/data/docs-ids"
 import type { MetaFunction } from "react-router"
 import { MarkdownRenderer } from "@/components/ui/Markdown"
 import { getFullSitePath, stripMarkdown } from "@/lib/utils"
+import { extractHeadings } from "@/lib/doc-utils"
+import { getDocsOgImagePath, withOgImage } from "@/lib/ogImages"
 
 const docsModules = import.meta.glob("/src/docs/*.md", { query: "?raw", import: "default" })
 const releaseModules = import.meta.glob("/../release-notes/*.md", { query: "?raw", import: "default" })
@@ -24,7 +25,7 @@ export const meta: MetaFunction<typeof loader> = ({ data, matches, location }) =
     "Explore RazorConsole documentation to learn how to build powerful terminal user interfaces.";
 
   return [
-    ...rootMeta,
+    ...(topic ? withOgImage(rootMeta, getDocsOgImagePath(topic.id)) : rootMeta),
     { title },
     { property: "og:url", content: pageUrl },
     { name: "description", content: description },
@@ -33,34 +34,6 @@ export const meta: MetaFunction<typeof loader> = ({ data, matches, location }) =
   ];
 };
 
-function extractHeadings(markdown: string): Heading[] {
-  const lines = markdown.split(/\r?\n/)
-  const headings: Heading[] = []
-  const slugger = new GithubSlugger()
-  let inCodeBlock = false
-
-  for (const line of lines) {
-    if (line.trim().startsWith("```")) {
-      inCodeBlock = !inCodeBlock
-      continue
-    }
-    if (inCodeBlock) continue
-
-    const match = line.match(/^\s*(#{1,4})\s+(.+)$/)
-    if (match) {
-      const level = match[1].length
-      const rawTitle = match[2].trim()
-      const cleanTitle = rawTitle
-        .replace(/`([^`]+)`/g, "$1") // Unwrap `code` to code
-        .replace(/\[([^\]]+)\]\([^\)]+\)/g, "$1") // Unwrap [link](url) to link
-        .replace(/[*_]{1,2}([^*_]+)[*_]{1,2}/g, "$1") // Unwrap **bold** to bold
-
-      headings.push({ level, title: rawTitle, id: slugger.slug(cleanTitle) })
-    }
-  }
-  return headings
-}
-
 type Topic = { id: string; title: string; content: string; filePath: string; headings: Heading[]; }
 async function loadMarkdownContent(topicId: string) {
   const topicMeta = docTopicIds.find(t => t.id === topicId)
@@ -2,6 +2,7 @@ import { Link, type MetaFunction } from "react-router"
 import { components } from "@/data/components"
 import { ArrowRight, Box } from "lucide-react"
 import { cn, getCategoryBadgeColor, getFullSitePath } from "@/lib/utils"
+import ComponentThumbnail from "@/components/components/ComponentThumbnail"
 
 export const meta: MetaFunction = ({ matches, location }) => {
   const rootMeta = matches.find((m) => m.id === "root")?.meta || [];
@@ -43,6 +44,8 @@ export default function ComponentsOverview() {
             <div className="absolute inset-0 -z-10 bg-gradient-to-br from-blue-50/50 via-transparent to-transparent opacity-0 transition-opacity duration-500 group-hover:opacity-100 dark:from-blue-950/10" />
 
             <div>
+              <ComponentThumbnail component={component} />
+
               <div className="mb-4 flex items-center justify-between">
                 <span
                   className={cn(
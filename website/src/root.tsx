@@ -10,6 +10,7 @@ import "./index.css";
 import { useThemeEffect } from "./hooks/useThemeEffect";
 import { initHighlighter } from "./components/ui/CodeBlock";
 import { getFullSitePath } from "./lib/utils";
+import UpdatePrompt from "./components/app/UpdatePrompt";
 
 
 export async function loader() {
@@ -87,6 +88,7 @@ export default function Root() {
       </head>
       <body id="root">
         <Outlet />
+        <UpdatePrompt />
         <ScrollRestoration />
         <Scripts />
       </body>
@@ -17,4 +17,7 @@ export interface ComponentInfo {
   examples: string[]
   // optional custom height (CSS value) for the xterm preview container
   previewHeight?: string
+  // the first example keeps changing after it has rendered, e.g. a spinner,
+  // so the OG script also records it as an animated thumbnail
+  animated?: boolean
 }
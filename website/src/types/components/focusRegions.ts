@@ -0,0 +1,19 @@
+import type { CellSpan } from "@/types/components/vdomSnapshot"
+
+// A focusable element of a preview as reported by the WASM renderer
+export interface FocusTargetRegion {
+  // the focus key FocusManager tracks: the element's key, id or data-focus-key, or its path
+  key: string
+  // zero-based position in Tab order
+  order: number
+  tagName: string
+  // empty while the element is not on screen, e.g. scrolled out of a viewport
+  spans: CellSpan[]
+}
+
+export default interface FocusRegions {
+  // key of the focused element, null before anything has been focused
+  focusKey: string | null
+  // every focusable element in Tab order
+  targets: FocusTargetRegion[]
+}
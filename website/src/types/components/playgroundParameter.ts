@@ -0,0 +1,10 @@
+export type PlaygroundValue = string | number | boolean | null
+
+// Editable parameter reported by the WASM renderer for a preview component
+export default interface PlaygroundParameter {
+  name: string
+  // default value declared by the example component
+  value: PlaygroundValue
+  // allowed values for enum-like types such as FlexDirection, Justify or BoxBorder
+  options?: string[]
+}
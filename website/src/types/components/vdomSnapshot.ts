@@ -0,0 +1,32 @@
+// Virtual DOM node of a preview frame as reported by the WASM renderer
+export interface VdomNode {
+  // position from the root, e.g. "0.1.0"; stays the same across frames while the structure does
+  path: string
+  kind: "component" | "region" | "element" | "text"
+  tagName?: string
+  key?: string
+  // only set for text nodes
+  text?: string
+  attributes: Record<string, string | null>
+  // names of the registered event handlers, e.g. "onclick"
+  events: string[]
+  children: VdomNode[]
+}
+
+export interface VdomFrame {
+  // counts the frames since the preview was registered
+  number: number
+  // ISO 8601
+  timestamp: string
+  root: VdomNode
+}
+
+// [row relative to the first rendered line, column, width] — one run of cells on a single line
+export type CellSpan = [row: number, column: number, width: number]
+
+export default interface VdomSnapshot {
+  // recent frames, oldest first
+  frames: VdomFrame[]
+  // cells of the elements of the latest frame keyed by node path
+  regions: Record<string, CellSpan[]>
+}
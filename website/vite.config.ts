@@ -48,6 +48,12 @@ export default defineConfig({
   ssr: {
     noExternal: ['xterm', '@xterm/addon-fit']
   },
+  // the .NET runtime runs in a module worker (src/lib/razorConsoleWorker.ts) that needs the same
+  // resource rewrite as the main bundle
+  worker: {
+    format: 'es',
+    plugins: () => [rewriteDotnetResourceImports()],
+  },
   server: {
     fs: {
       // Allow Vite to read files one level higher (for release-notes)